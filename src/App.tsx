@@ -1,13 +1,34 @@
 import { useEffect, useState, useCallback } from 'react';
+import type { ReactNode } from 'react';
 import './App.css';
-import type { GameRule, GameStateWithGuesses, Position, Cell, LevelGameState } from './types';
-import { generateGrid, randInt, isPrime } from './gameUtils';
+import type { GameRule, GameStateWithGuesses, Position, Cell, CellValue, CoinsValue, LevelGameState, NumberDisplay, RuleSpec, RuleTarget } from './types';
+import { generateGrid } from './gameUtils';
+import { createRandom, randInt, randomSeed } from './mathUtils';
+import { getRule, isCorrectValue } from './rules';
+import {
+  canPicture,
+  formatCellValue,
+  isBaseNumber,
+  isClock,
+  isCoins,
+  isFraction,
+  isPercent,
+  isRomanPair,
+  isShape,
+  isWords
+} from './cellValues';
+import { getCurrency, getDenomination } from './currencies';
+import { ClockFace } from './ClockFace';
+import { NumberPicture } from './NumberPicture';
+import { ShapeFigure } from './ShapeFigure';
+import { canWriteRoman, romanizeNumbers, toRoman } from './romanNumerals';
 import { moveSound, munchSound, errorSound, incorrectSound, winSound } from './sounds';
 import { LevelSelector } from './LevelSelector';
 import { 
   initializeLevelGameState, 
   loadSaveData, 
-  saveLevelProgress 
+  saveLevelProgress,
+  updateLevelProgress
 } from './levelGameState';
 import { calculateLevelStars } from './levels';
 import { createEnemyAI, calculateNextMove, getDifficultyLevel } from './enemyAI';
@@ -26,33 +47,19 @@ type AppMode = 'menu' | 'levelSelect' | 'classicGame' | 'levelGame';
 const ROWS = 5;
 const COLS = 6;
 
-function getInitialState(score = 0, puzzlesSolved = 0): GameStateWithGuesses & { gameWon?: boolean, timeLeft?: number, puzzlesSolved?: number } {
+function getInitialState(score = 0, puzzlesSolved = 0, seed = randomSeed()): GameStateWithGuesses & { gameWon?: boolean, timeLeft?: number, puzzlesSolved?: number } {
+  const random = createRandom(seed);
   const RULES: GameRule[] = ['multiples', 'factors', 'primes', 'addition', 'subtraction', 'mixed'];
-  const rule = RULES[randInt(0, RULES.length - 1)];
-  let targetNumber: number;
-  if (rule === 'primes') {
-    targetNumber = 0;
-  } else if (rule === 'addition') {
-    targetNumber = randInt(5, 20);
-  } else if (rule === 'subtraction') {
-    targetNumber = randInt(0, 15);
-  } else if (rule === 'mixed') {
-    targetNumber = randInt(5, 15); // Good range for mixed addition/subtraction
-  } else if (rule === 'factors') {
-    // Generate numbers that have more factors to make the game more interesting
-    const numbersWithManyFactors = [12, 18, 20, 24, 30, 36];
-    targetNumber = numbersWithManyFactors[randInt(0, numbersWithManyFactors.length - 1)];
-  } else {
-    targetNumber = randInt(2, 12);
-  }
-  let grid = generateGrid(ROWS, COLS, rule, targetNumber).map(row => row.map(cell => ({ ...cell, revealed: false })));
+  const rule = RULES[randInt(0, RULES.length - 1, random)];
+  const { targetNumber, secondaryTargetNumber } = getRule(rule).randomTarget(random);
+  let grid = generateGrid({ rows: ROWS, cols: COLS, rule, target: { targetNumber, secondaryTargetNumber }, random }).map(row => row.map(cell => ({ ...cell, revealed: false })));
   
   // Debug logging for factors
   if (rule === 'factors') {
     console.log(`Factors of ${targetNumber}:`);
     const targetCells = grid.flat().filter(cell => cell.isTarget);
     targetCells.forEach(cell => {
-      console.log(`  ${cell.value} is marked as target`);
+      console.log(`  ${formatCellValue(cell.value)} is marked as target`);
     });
   }
   
@@ -65,7 +72,7 @@ function getInitialState(score = 0, puzzlesSolved = 0): GameStateWithGuesses & {
   ];
   
   // Randomly choose which corner gets the Muncher
-  const muncherCornerIndex = randInt(0, 3);
+  const muncherCornerIndex = randInt(0, 3, random);
   const muncher = corners[muncherCornerIndex];
   
   // Place Troggle at the opposite corner (diagonally opposite)
@@ -80,6 +87,9 @@ function getInitialState(score = 0, puzzlesSolved = 0): GameStateWithGuesses & {
     troggles,
     rule,
     targetNumber,
+    secondaryTargetNumber,
+    seed,
+    randomState: random.state,
     score,
     gameOver: false,
     incorrectGuesses: 0,
@@ -332,7 +342,9 @@ function App() {
           } else {
             moveSound.currentTime = 0; moveSound.play();
           }
-          return result.nextState as LevelGameState;
+          const nextState = result.nextState as LevelGameState;
+          // Count the move against par; bumping into the edge is not a move
+          return nextState.muncher === prev.muncher ? nextState : updateLevelProgress(nextState, 'move');
         });
       }
       
@@ -502,41 +514,7 @@ function App() {
               const cell = prev.grid[r][c];
               if (cell.isTarget && !cell.revealed && !cell.hasMuncher && !cell.hasTroggle) {
                 // Double-check that this cell is actually correct before revealing
-                let isActuallyCorrect = false;
-                switch (prev.rule) {
-                  case 'multiples':
-                    isActuallyCorrect = typeof cell.value === 'number' && prev.targetNumber > 0 && cell.value % prev.targetNumber === 0;
-                    break;
-                  case 'factors':
-                    isActuallyCorrect = typeof cell.value === 'number' && prev.targetNumber > 0 && cell.value > 0 && prev.targetNumber % cell.value === 0;
-                    break;
-                  case 'primes':
-                    isActuallyCorrect = typeof cell.value === 'number' && isPrime(cell.value);
-                    break;
-                  case 'addition':
-                    if (typeof cell.value === 'string' && cell.value.includes('+')) {
-                      const [a, b] = cell.value.split('+').map(Number);
-                      isActuallyCorrect = a + b === prev.targetNumber;
-                    }
-                    break;
-                  case 'subtraction':
-                    if (typeof cell.value === 'string' && cell.value.includes('-')) {
-                      const [a, b] = cell.value.split('-').map(Number);
-                      isActuallyCorrect = a - b === prev.targetNumber;
-                    }
-                    break;
-                  case 'mixed':
-                    if (typeof cell.value === 'string') {
-                      if (cell.value.includes('+')) {
-                        const [a, b] = cell.value.split('+').map(Number);
-                        isActuallyCorrect = a + b === prev.targetNumber;
-                      } else if (cell.value.includes('-')) {
-                        const [a, b] = cell.value.split('-').map(Number);
-                        isActuallyCorrect = a - b === prev.targetNumber;
-                      }
-                    }
-                    break;
-                }
+                const isActuallyCorrect = isCorrectValue(prev.rule, cell.value, prev);
                 
                 if (isActuallyCorrect) {
                   unrevealedTargets.push({ row: r, col: c });
@@ -547,11 +525,12 @@ function App() {
           
           if (unrevealedTargets.length > 0) {
             // Reveal one random correct square
-            const randomTarget = unrevealedTargets[randInt(0, unrevealedTargets.length - 1)];
+            const random = createRandom(prev.randomState);
+            const randomTarget = unrevealedTargets[randInt(0, unrevealedTargets.length - 1, random)];
             const newGrid = prev.grid.map(row => row.map(cell => ({ ...cell })));
             newGrid[randomTarget.row][randomTarget.col].revealed = true;
             
-            return { ...prev, grid: newGrid };
+            return { ...prev, grid: newGrid, randomState: random.state };
           }
           
           return prev;
@@ -593,7 +572,9 @@ function App() {
                 key={objective.id} 
                 className={`objective ${levelGameState.completedObjectives.includes(objective.id) ? 'completed' : ''}`}
               >
-                {objective.description} {levelGameState.completedObjectives.includes(objective.id) ? '✅' : ''}
+                {objective.description}
+                {objective.condition === 'par' && ` (par ${levelGameState.parMoves}, moves ${levelGameState.movesMade})`}
+                {' '}{levelGameState.completedObjectives.includes(objective.id) ? '✅' : ''}
               </div>
             ))}
           </div>
@@ -601,11 +582,12 @@ function App() {
         
         <GameInfo 
           rule={levelGameState.rule} 
-          targetNumber={levelGameState.targetNumber} 
+          target={levelGameState} 
           score={levelGameState.score} 
           incorrectGuesses={levelGameState.incorrectGuesses} 
           timeLeft={levelGameState.timeLeft} 
           grid={levelGameState.grid} 
+          numberDisplay={levelGameState.currentLevel.parameters.numberDisplay}
         />
         
         <div className="game-controls">
@@ -638,7 +620,10 @@ function App() {
           )}
         </div>
         
-        <GameGrid grid={levelGameState.grid} />
+        <GameGrid
+          grid={levelGameState.grid}
+          numberDisplay={levelGameState.currentLevel.parameters.numberDisplay}
+        />
         
         {/* Level Completion Screen Overlay */}
         {showLevelCompletion && levelCompletionData && (
@@ -808,7 +793,7 @@ function App() {
   return (
     <div className="game-container">
       <h2>Math Chompers</h2>
-      <GameInfo rule={state.rule} targetNumber={state.targetNumber} score={state.score} incorrectGuesses={state.incorrectGuesses} timeLeft={state.timeLeft} grid={state.grid} />
+      <GameInfo rule={state.rule} target={state} score={state.score} incorrectGuesses={state.incorrectGuesses} timeLeft={state.timeLeft} grid={state.grid} />
       <div className="game-controls">
         {state.gameWon && (
           <div className="game-won">
@@ -883,21 +868,17 @@ function App() {
   );
 }
 
-function GameInfo({ rule, targetNumber, score, incorrectGuesses, timeLeft, grid }: { 
-  rule: GameRule, 
-  targetNumber: number, 
+function GameInfo({ rule, target, score, incorrectGuesses, timeLeft, grid, numberDisplay = 'digits' }: { 
+  rule: RuleSpec, 
+  target: RuleTarget, 
   score: number, 
   incorrectGuesses: number, 
   timeLeft?: number, 
-  grid: Cell[][] 
+  grid: Cell[][],
+  numberDisplay?: NumberDisplay
 }) {
-  let ruleText = '';
-  if (rule === 'multiples') ruleText = `Eat all multiples of ${targetNumber}`;
-  if (rule === 'factors') ruleText = `Eat all factors of ${targetNumber}`;
-  if (rule === 'primes') ruleText = 'Eat all prime numbers';
-  if (rule === 'addition') ruleText = `Find all sums that add up to ${targetNumber}`;
-  if (rule === 'subtraction') ruleText = `Find all differences that equal ${targetNumber}`;
-  if (rule === 'mixed') ruleText = `Find all addition and subtraction problems that equal ${targetNumber}`;
+  const description = getRule(rule).describe(target);
+  const ruleText = numberDisplay === 'roman' ? romanizeNumbers(description) : description;
   // Count total correct answers: current targets + munched correct answers
   const totalCorrectAnswers = grid.flat().filter((cell: Cell) => 
     cell.isTarget || cell.munchedCorrect
@@ -914,7 +895,7 @@ function GameInfo({ rule, targetNumber, score, incorrectGuesses, timeLeft, grid
   );
 }
 
-function GameGrid({ grid }: { grid: Cell[][] }) {
+function GameGrid({ grid, numberDisplay = 'digits' }: { grid: Cell[][]; numberDisplay?: NumberDisplay }) {
   const rows = grid.length;
   const cols = grid[0]?.length || 0;
   
@@ -939,6 +920,7 @@ function GameGrid({ grid }: { grid: Cell[][] }) {
       {grid.flat().map((cell: Cell, idx: number) => {
         // Build CSS classes for the cell
         let cellClasses = 'cell';
+        if (cell.wall) cellClasses += ' wall';
         if (cell.hasMuncher) cellClasses += ' muncher';
         if (cell.hasTroggle) {
           cellClasses += ' troggle';
@@ -986,8 +968,8 @@ function GameGrid({ grid }: { grid: Cell[][] }) {
                 alt="Troggle"
                 style={{ width: '100%', height: '100%', objectFit: 'cover', display: 'block' }}
               />
-            ) : (
-              cell.value
+            ) : cell.wall ? null : (
+              <CellValueView value={cell.value} numberDisplay={numberDisplay} />
             )}
           </div>
         );
@@ -996,6 +978,107 @@ function GameGrid({ grid }: { grid: Cell[][] }) {
   );
 }
 
+// Render a cell's value; fractions are stacked numerator over denominator,
+// minus signs use the wide "−" so negatives are not mistaken for a dash, and
+// numbers can be drawn as dots, ten-frames, tally marks or Roman numerals
+function CellValueView({ value, numberDisplay }: { value: CellValue; numberDisplay: NumberDisplay }) {
+  if (isFraction(value)) {
+    return (
+      <span className="fraction" aria-label={formatCellValue(value)}>
+        <span className="numerator">{value.numerator}</span>
+        <span className="denominator">{value.denominator}</span>
+      </span>
+    );
+  }
+  if (isPercent(value)) {
+    return <>{formatCellValue(value)}</>;
+  }
+  if (isCoins(value)) {
+    return <CoinsView value={value} />;
+  }
+  if (isClock(value)) {
+    return <ClockFace value={value} />;
+  }
+  if (isShape(value)) {
+    return <ShapeFigure value={value} />;
+  }
+  if (isWords(value)) {
+    const text = formatCellValue(value);
+    return <FittedText text={text}><span className="words">{text}</span></FittedText>;
+  }
+  if (isBaseNumber(value)) {
+    const text = formatCellValue(value);
+    return <FittedText text={text}><span className="base-number">{text}</span></FittedText>;
+  }
+  if (isRomanPair(value)) {
+    const text = formatCellValue(value);
+    return <FittedText text={text}><span className="roman">{text}</span></FittedText>;
+  }
+  if (numberDisplay === 'roman' && typeof value === 'number' && canWriteRoman(value)) {
+    const numeral = toRoman(value);
+    return <FittedText text={numeral}><span className="roman" aria-label={String(value)}>{numeral}</span></FittedText>;
+  }
+  if (numberDisplay !== 'digits' && numberDisplay !== 'roman' && canPicture(value)) {
+    return <NumberPicture value={value} display={numberDisplay} />;
+  }
+  if (typeof value === 'number' && value < 0) {
+    return <span className="negative" aria-label={String(value)}>−{Math.abs(value)}</span>;
+  }
+  if (typeof value === 'string') {
+    return <FittedText text={value}><ExpressionView text={value} /></FittedText>;
+  }
+  return <>{value}</>;
+}
+
+// Characters that fit across a cell at the normal font size
+const CELL_CHARACTERS = 8;
+const MIN_TEXT_SCALE = 0.4;
+
+// Shrink text that would overflow its cell: the longest word has to fit on one
+// line and the whole text in about three
+function FittedText({ text, children }: { text: string; children: ReactNode }) {
+  const longestWord = Math.max(...text.split(/\s+/).map(word => word.length));
+  const scale = Math.min(1, CELL_CHARACTERS / longestWord, Math.sqrt(3 * CELL_CHARACTERS / text.length));
+  if (scale >= 1) return <>{children}</>;
+  return (
+    <span className="fitted-text" style={{ fontSize: `${Math.max(scale, MIN_TEXT_SCALE).toFixed(2)}em` }}>
+      {children}
+    </span>
+  );
+}
+
+// One icon per coin or bill, labelled with its face value
+function CoinsView({ value }: { value: CoinsValue }) {
+  const currency = getCurrency(value.currency);
+  return (
+    <span className="coins" aria-label={formatCellValue(value)}>
+      {value.coins.flatMap(({ denomination, count }) => {
+        const definition = getDenomination(currency, denomination);
+        return Array.from({ length: count }, (_, i) => (
+          <span
+            key={`${denomination}-${i}`}
+            className={`coin ${definition?.type ?? 'coin'}`}
+            style={{ background: definition?.color }}
+          >
+            {definition?.symbol ?? denomination}
+          </span>
+        ));
+      })}
+    </span>
+  );
+}
+
+// "2^3" is drawn as 2³: the text after each caret becomes a superscript
+function ExpressionView({ text }: { text: string }) {
+  const parts = text.replace(/-/g, '−').split(/\^(\(?−?\d+\)?)/);
+  if (parts.length === 1) return <>{parts[0]}</>;
+  return (
+    <span className="expression" aria-label={text}>
+      {parts.map((part, i) => i % 2 === 1 ? <sup key={i}>{part}</sup> : part)}
+    </span>
+  );
+}
+
 // --- Game Logic ---
 function moveMuncherWithSound(state: GameStateWithGuesses, dRow: number, dCol: number): { hitTroggle: boolean, nextState: GameStateWithGuesses } {
   if (state.gameOver) return { hitTroggle: false, nextState: state };
@@ -1003,6 +1086,7 @@ function moveMuncherWithSound(state: GameStateWithGuesses, dRow: number, dCol: n
   const newRow = Math.max(0, Math.min(state.grid.length - 1, row + dRow));
   const newCol = Math.max(0, Math.min(state.grid[0].length - 1, col + dCol));
   if (newRow === row && newCol === col) return { hitTroggle: false, nextState: state };
+  if (state.grid[newRow][newCol].wall) return { hitTroggle: false, nextState: state };
   
   // Move muncher first (allow collision to happen visually)
   let grid = state.grid.map(row => row.map(cell => ({ ...cell })));
@@ -1049,43 +1133,7 @@ function muncherEatWithScoringAndSound(
   let grid = state.grid.map(row => row.map(cell => ({ ...cell })));
   
   // Double-check if this is actually a correct answer
-  let isActuallyCorrect = false;
-  if (cell.isTarget) {
-    switch (state.rule) {
-      case 'multiples':
-        isActuallyCorrect = typeof cell.value === 'number' && state.targetNumber > 0 && cell.value % state.targetNumber === 0;
-        break;
-      case 'factors':
-        isActuallyCorrect = typeof cell.value === 'number' && state.targetNumber > 0 && cell.value > 0 && state.targetNumber % cell.value === 0;
-        break;
-      case 'primes':
-        isActuallyCorrect = typeof cell.value === 'number' && isPrime(cell.value);
-        break;
-      case 'addition':
-        if (typeof cell.value === 'string' && cell.value.includes('+')) {
-          const [a, b] = cell.value.split('+').map(Number);
-          isActuallyCorrect = a + b === state.targetNumber;
-        }
-        break;
-      case 'subtraction':
-        if (typeof cell.value === 'string' && cell.value.includes('-')) {
-          const [a, b] = cell.value.split('-').map(Number);
-          isActuallyCorrect = a - b === state.targetNumber;
-        }
-        break;
-      case 'mixed':
-        if (typeof cell.value === 'string') {
-          if (cell.value.includes('+')) {
-            const [a, b] = cell.value.split('+').map(Number);
-            isActuallyCorrect = a + b === state.targetNumber;
-          } else if (cell.value.includes('-')) {
-            const [a, b] = cell.value.split('-').map(Number);
-            isActuallyCorrect = a - b === state.targetNumber;
-          }
-        }
-        break;
-    }
-  }
+  const isActuallyCorrect = cell.isTarget && isCorrectValue(state.rule, cell.value, state);
   
   if (cell.isTarget && isActuallyCorrect) {
     // Correct munch
@@ -1132,7 +1180,17 @@ function muncherEatWithScoringAndSound(
     // Incorrect munch
     newState.currentStreak = 0;
     newState.incorrectGuesses += 1;
-    newState.session.mistakes += 1;
+    
+    // Copy the session rather than changing the previous state's, and count the
+    // mistake the distractor was built from
+    const { mistakes, misconceptions } = newState.session;
+    newState.session = {
+      ...newState.session,
+      mistakes: mistakes + 1,
+      misconceptions: cell.misconception
+        ? { ...misconceptions, [cell.misconception]: (misconceptions[cell.misconception] ?? 0) + 1 }
+        : misconceptions
+    };
     
     // Calculate accuracy
     const total = newState.puzzlesSolved + newState.session.mistakes;
@@ -1173,43 +1231,7 @@ function muncherEatWithSound(state: GameStateWithGuesses & { gameWon?: boolean }
   let grid = state.grid.map(row => row.map(cell => ({ ...cell })));
   
   // Double-check if this is actually a correct answer
-  let isActuallyCorrect = false;
-  if (cell.isTarget) {
-    switch (state.rule) {
-      case 'multiples':
-        isActuallyCorrect = typeof cell.value === 'number' && state.targetNumber > 0 && cell.value % state.targetNumber === 0;
-        break;
-      case 'factors':
-        isActuallyCorrect = typeof cell.value === 'number' && state.targetNumber > 0 && cell.value > 0 && state.targetNumber % cell.value === 0;
-        break;
-      case 'primes':
-        isActuallyCorrect = typeof cell.value === 'number' && isPrime(cell.value);
-        break;
-      case 'addition':
-        if (typeof cell.value === 'string' && cell.value.includes('+')) {
-          const [a, b] = cell.value.split('+').map(Number);
-          isActuallyCorrect = a + b === state.targetNumber;
-        }
-        break;
-      case 'subtraction':
-        if (typeof cell.value === 'string' && cell.value.includes('-')) {
-          const [a, b] = cell.value.split('-').map(Number);
-          isActuallyCorrect = a - b === state.targetNumber;
-        }
-        break;
-      case 'mixed':
-        if (typeof cell.value === 'string') {
-          if (cell.value.includes('+')) {
-            const [a, b] = cell.value.split('+').map(Number);
-            isActuallyCorrect = a + b === state.targetNumber;
-          } else if (cell.value.includes('-')) {
-            const [a, b] = cell.value.split('-').map(Number);
-            isActuallyCorrect = a - b === state.targetNumber;
-          }
-        }
-        break;
-    }
-  }
+  const isActuallyCorrect = cell.isTarget && isCorrectValue(state.rule, cell.value, state);
   
   if (cell.isTarget && isActuallyCorrect) {
     score += 10;
@@ -1262,6 +1284,8 @@ function moveTroggles(state: GameStateWithGuesses & { gameWon?: boolean }): Game
   if (state.gameOver || state.gameWon) return state;
   let grid = state.grid.map(row => row.map(cell => ({ ...cell })));
   const newTroggles: Position[] = [];
+  // Carry on from the saved generator state so updaters stay pure
+  const random = createRandom(state.randomState);
   
   // Get actual grid dimensions instead of using hardcoded constants
   const GRID_ROWS = state.grid.length;
@@ -1289,8 +1313,9 @@ function moveTroggles(state: GameStateWithGuesses & { gameWon?: boolean }): Game
         cooldown: 0
       };
       
-      // Calculate intelligent move
-      const newPos = calculateNextMove(troggleState, levelState, []);
+      // Calculate intelligent move; a wall in the way means it waits
+      const move = calculateNextMove(troggleState, levelState, [], random);
+      const newPos = grid[move.row][move.col].wall ? troggle : move;
       
       // Move the Troggle and set its type
       grid[newPos.row][newPos.col].hasTroggle = true;
@@ -1303,15 +1328,19 @@ function moveTroggles(state: GameStateWithGuesses & { gameWon?: boolean }): Game
       const { row, col } = troggle;
       grid[row][col].hasTroggle = false;
       // Only move horizontally or vertically, not diagonally
-      const moveAxis = Math.random() < 0.5 ? 'row' : 'col';
+      const moveAxis = random.next() < 0.5 ? 'row' : 'col';
       let dRow = 0, dCol = 0;
       if (moveAxis === 'row') {
-        dRow = randInt(-1, 1);
+        dRow = randInt(-1, 1, random);
       } else {
-        dCol = randInt(-1, 1);
+        dCol = randInt(-1, 1, random);
+      }
+      let newRow = Math.max(0, Math.min(GRID_ROWS - 1, row + dRow));
+      let newCol = Math.max(0, Math.min(GRID_COLS - 1, col + dCol));
+      if (grid[newRow][newCol].wall) {
+        newRow = row;
+        newCol = col;
       }
-      const newRow = Math.max(0, Math.min(GRID_ROWS - 1, row + dRow));
-      const newCol = Math.max(0, Math.min(GRID_COLS - 1, col + dCol));
       
       // Move the Troggle first (allow collision to happen visually)
       grid[newRow][newCol].hasTroggle = true;
@@ -1323,11 +1352,11 @@ function moveTroggles(state: GameStateWithGuesses & { gameWon?: boolean }): Game
   for (const troggle of newTroggles) {
     if (troggle.row === state.muncher.row && troggle.col === state.muncher.col) {
       // Collision happened - game over after showing the collision
-      return { ...state, grid, troggles: newTroggles, gameOver: true, gameWon: false };
+      return { ...state, grid, troggles: newTroggles, randomState: random.state, gameOver: true, gameWon: false };
     }
   }
   
-  return { ...state, grid, troggles: newTroggles };
+  return { ...state, grid, troggles: newTroggles, randomState: random.state };
 }
 
 // High Score Management
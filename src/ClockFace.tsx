@@ -0,0 +1,74 @@
+import type { ClockValue } from './types';
+import { formatTime } from './cellValues';
+
+interface ClockFaceProps {
+  value: ClockValue;
+}
+
+// Drawn in a 100x100 box centred on (50, 50)
+const CENTER = 50;
+const RADIUS = 46;
+
+// Point on the dial `length` from the centre, `degrees` clockwise from 12
+function dialPoint(degrees: number, length: number) {
+  const radians = (degrees - 90) * Math.PI / 180;
+  return { x: CENTER + length * Math.cos(radians), y: CENTER + length * Math.sin(radians) };
+}
+
+function Hand({ degrees, length, width }: { degrees: number; length: number; width: number }) {
+  const tip = dialPoint(degrees, length);
+  return (
+    <line
+      x1={CENTER}
+      y1={CENTER}
+      x2={tip.x}
+      y2={tip.y}
+      stroke="#222"
+      strokeWidth={width}
+      strokeLinecap="round"
+    />
+  );
+}
+
+// An analog clock (with or without numbers) or a digital display.
+// The hour hand sits between hours as the minutes pass, like a real clock.
+export function ClockFace({ value }: ClockFaceProps) {
+  const { hours, minutes, face } = value;
+  const label = formatTime(hours, minutes);
+
+  if (face === 'digital') {
+    return (
+      <svg className="clock" viewBox="0 0 100 100" role="img" aria-label={label}>
+        <rect x="4" y="28" width="92" height="44" rx="6" fill="#263238" />
+        <text x={CENTER} y={CENTER} dy="0.35em" textAnchor="middle" fontSize="30" fontFamily="monospace" fill="#76ff03">
+          {label}
+        </text>
+      </svg>
+    );
+  }
+
+  return (
+    <svg className="clock" viewBox="0 0 100 100" role="img" aria-label={label}>
+      <circle cx={CENTER} cy={CENTER} r={RADIUS} fill="#fff" stroke="#222" strokeWidth="3" />
+      {Array.from({ length: 12 }, (_, i) => {
+        const hour = i + 1;
+        if (face === 'numbers') {
+          const position = dialPoint(hour * 30, 36);
+          return (
+            <text key={hour} x={position.x} y={position.y} dy="0.35em" textAnchor="middle" fontSize="12" fill="#222">
+              {hour}
+            </text>
+          );
+        }
+        const outer = dialPoint(hour * 30, 42);
+        const inner = dialPoint(hour * 30, hour % 3 === 0 ? 32 : 36);
+        return (
+          <line key={hour} x1={inner.x} y1={inner.y} x2={outer.x} y2={outer.y} stroke="#222" strokeWidth={hour % 3 === 0 ? 3 : 2} />
+        );
+      })}
+      <Hand degrees={((hours % 12) + minutes / 60) * 30} length={24} width={5} />
+      <Hand degrees={minutes * 6} length={36} width={3} />
+      <circle cx={CENTER} cy={CENTER} r="3" fill="#222" />
+    </svg>
+  );
+}
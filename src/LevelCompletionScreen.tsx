@@ -1,7 +1,16 @@
 import React from 'react';
-import type { LevelGameState, LevelScoring } from './types';
+import type { LevelGameState, LevelScoring, Misconception } from './types';
 import type { Achievement } from './scoring';
 
+// What each kind of wrong munch suggests practising
+const MISCONCEPTION_TIPS: Record<Misconception, string> = {
+  offByOne: 'Numbers one away from an answer',
+  factorMultipleMix: 'Mixing up factors and multiples',
+  nearbyFactor: 'Factors of a nearby number',
+  nearPrime: 'Odd numbers that only look prime',
+  wrongOperation: 'Using the wrong operation'
+};
+
 interface LevelCompletionScreenProps {
   gameState: LevelGameState;
   scoring: LevelScoring;
@@ -20,6 +29,7 @@ export const LevelCompletionScreen: React.FC<LevelCompletionScreenProps> = ({
   onRetry
 }) => {
   const starsEarned = gameState.session.starsEarned;
+  const misconceptions = Object.entries(gameState.session.misconceptions) as [Misconception, number][];
   
   return (
     <div className="level-completion-overlay">
@@ -110,6 +120,20 @@ export const LevelCompletionScreen: React.FC<LevelCompletionScreenProps> = ({
           </div>
         )}
 
+        {misconceptions.length > 0 && (
+          <div className="misconceptions-found">
+            <h3>Watch Out For</h3>
+            <div className="objectives-list">
+              {misconceptions.map(([misconception, count]) => (
+                <div key={misconception} className="misconception-item">
+                  <span className="objective-text">{MISCONCEPTION_TIPS[misconception]}</span>
+                  <span className="objective-points">×{count}</span>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
         {achievements.length > 0 && (
           <div className="achievements-earned">
             <h3>🏆 Achievements Unlocked!</h3>
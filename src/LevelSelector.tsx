@@ -1,13 +1,21 @@
 import { useState, useEffect } from 'react';
-import { LEVELS, LEVEL_CATEGORIES, getLevelsByCategory } from './levels';
+import { LEVELS, LEVEL_CATEGORIES, getLevelsByCategory, getLevelRuleTarget } from './levels';
+import { getRule } from './rules';
+import { romanizeNumbers } from './romanNumerals';
 import { loadSaveData, getUnlockedLevels, getCompletedLevels, getTotalStars, getRecommendedLevel } from './levelGameState';
-import type { SaveData, LevelCategory } from './types';
+import type { Level, LevelCategory, SaveData } from './types';
 
 interface LevelSelectorProps {
   onLevelSelect: (levelId: number) => void;
   onBack: () => void;
 }
 
+// The rule as shown on a level card, in Roman numerals on Roman levels
+function ruleLabel(level: Level): string {
+  const label = getRule(level.parameters.rule).label(getLevelRuleTarget(level.parameters));
+  return level.parameters.numberDisplay === 'roman' ? romanizeNumbers(label) : label;
+}
+
 export function LevelSelector({ onLevelSelect, onBack }: LevelSelectorProps) {
   const [saveData, setSaveData] = useState<SaveData | null>(null);
   const [selectedCategory, setSelectedCategory] = useState<LevelCategory>('tutorial');
@@ -89,12 +97,7 @@ export function LevelSelector({ onLevelSelect, onBack }: LevelSelectorProps) {
                 {isUnlocked && (
                   <div className="level-details">
                     <div className="level-rule">
-                      {level.parameters.rule === 'multiples' && `Multiples of ${level.parameters.targetNumber}`}
-                      {level.parameters.rule === 'factors' && `Factors of ${level.parameters.targetNumber}`}
-                      {level.parameters.rule === 'primes' && 'Prime Numbers'}
-                      {level.parameters.rule === 'addition' && `Addition = ${level.parameters.targetNumber}`}
-                      {level.parameters.rule === 'subtraction' && `Subtraction = ${level.parameters.targetNumber}`}
-                      {level.parameters.rule === 'mixed' && `Mixed Operations = ${level.parameters.targetNumber}`}
+                      {ruleLabel(level)}
                     </div>
                     
                     <div className="level-params">
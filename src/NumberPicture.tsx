@@ -0,0 +1,100 @@
+import type { NumberDisplay } from './types';
+
+type PictureDisplay = Exclude<NumberDisplay, 'digits' | 'roman'>;
+
+interface NumberPictureProps {
+  value: number;
+  display: PictureDisplay;
+}
+
+const INK = '#222';
+
+// Dice faces on a 3x3 grid for 1-6, so small counts can be seen at a glance
+const DICE_LAYOUTS: [number, number][][] = [
+  [[1, 1]],
+  [[0, 0], [2, 2]],
+  [[0, 0], [1, 1], [2, 2]],
+  [[0, 0], [2, 0], [0, 2], [2, 2]],
+  [[0, 0], [2, 0], [1, 1], [0, 2], [2, 2]],
+  [[0, 0], [2, 0], [0, 1], [2, 1], [0, 2], [2, 2]]
+];
+
+function Dots({ value }: { value: number }) {
+  if (value <= DICE_LAYOUTS.length) {
+    return (
+      <>
+        {DICE_LAYOUTS[value - 1].map(([col, row], i) => (
+          <circle key={i} cx={22 + col * 28} cy={22 + row * 28} r="10" fill={INK} />
+        ))}
+      </>
+    );
+  }
+  // Larger counts go in rows of five, like counting on fingers
+  const rows = Math.ceil(value / 5);
+  const top = 50 - (rows - 1) * 10;
+  return (
+    <>
+      {Array.from({ length: value }, (_, i) => (
+        <circle key={i} cx={14 + (i % 5) * 18} cy={top + Math.floor(i / 5) * 20} r="7" fill={INK} />
+      ))}
+    </>
+  );
+}
+
+// One 2x5 frame per ten, filled left to right along the top row first
+function TenFrames({ value }: { value: number }) {
+  const frames = Math.ceil(value / 10);
+  const cell = 18;
+  const frameTop = (frame: number) => frames === 1 ? 32 : 10 + frame * 44;
+  return (
+    <>
+      {Array.from({ length: frames * 10 }, (_, i) => {
+        const frame = Math.floor(i / 10);
+        const x = 5 + (i % 5) * cell;
+        const y = frameTop(frame) + Math.floor((i % 10) / 5) * cell;
+        return (
+          <g key={i}>
+            <rect x={x} y={y} width={cell} height={cell} fill="#fff" stroke={INK} strokeWidth="2" />
+            {i < value && <circle cx={x + cell / 2} cy={y + cell / 2} r="6" fill={INK} />}
+          </g>
+        );
+      })}
+    </>
+  );
+}
+
+// Bundles of five: four upright strokes crossed by a fifth, two bundles per row
+function Tally({ value }: { value: number }) {
+  const bundles = Math.ceil(value / 5);
+  const rows = Math.ceil(bundles / 2);
+  const height = 32;
+  const top = 50 - (rows * height + (rows - 1) * 10) / 2;
+  return (
+    <>
+      {Array.from({ length: bundles }, (_, bundle) => {
+        const strokes = Math.min(5, value - bundle * 5);
+        const left = bundles === 1 ? 34 : 12 + (bundle % 2) * 44;
+        const y = top + Math.floor(bundle / 2) * (height + 10);
+        return (
+          <g key={bundle} stroke={INK} strokeWidth="3" strokeLinecap="round">
+            {Array.from({ length: Math.min(strokes, 4) }, (_, i) => (
+              <line key={i} x1={left + i * 8} y1={y} x2={left + i * 8} y2={y + height} />
+            ))}
+            {strokes === 5 && <line x1={left - 5} y1={y + height * 0.8} x2={left + 29} y2={y + height * 0.2} />}
+          </g>
+        );
+      })}
+    </>
+  );
+}
+
+// A small whole number drawn as something to count rather than read (see canPicture)
+export function NumberPicture({ value, display }: NumberPictureProps) {
+  return (
+    <svg className="number-picture" viewBox="0 0 100 100" role="img" aria-label={String(value)}>
+      {display === 'dots' && <Dots value={value} />}
+      {display === 'tenFrame' && <TenFrames value={value} />}
+      {display === 'tally' && <Tally value={value} />}
+    </svg>
+  );
+}
@@ -0,0 +1,27 @@
+import type { ShapeValue } from './types';
+import { formatCellValue } from './cellValues';
+import { getShape } from './shapes';
+
+interface ShapeFigureProps {
+  value: ShapeValue;
+}
+
+// A catalogue polygon, turned about the centre of its 100x100 box.
+// Every shape gets the same fill so colour never gives the answer away.
+export function ShapeFigure({ value }: ShapeFigureProps) {
+  const definition = getShape(value.shape);
+  if (!definition) return <>{value.shape}</>;
+
+  return (
+    <svg className="shape" viewBox="0 0 100 100" role="img" aria-label={formatCellValue(value)}>
+      <polygon
+        points={definition.points.map(([x, y]) => `${x},${y}`).join(' ')}
+        transform={`rotate(${value.rotation} 50 50)`}
+        fill="#90caf9"
+        stroke="#0d47a1"
+        strokeWidth="3"
+        strokeLinejoin="round"
+      />
+    </svg>
+  );
+}
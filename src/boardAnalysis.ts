@@ -0,0 +1,187 @@
+import type { Cell, Position } from './types';
+
+// === BOARD ANALYSIS ===
+// Looks at a board before anyone plays it: how many moves a good player needs
+// to reach every target, and whether the layout is fair. The Muncher moves one
+// cell up, down, left or right per move, so on an open board the distance
+// between two cells is their Manhattan distance; walls make it a walk around.
+
+export interface BoardAnalysis {
+  targets: Position[];
+  tour: Position[];                // Reachable targets in the order the tour visits them
+  tourLength: number;              // Moves to visit every reachable target from the Muncher's start
+  guardedTargets: Position[];      // Targets within reach of a Troggle's start
+  unreachableTargets: Position[];  // Targets walled off from the Muncher
+  problems: string[];              // Why the board is unfair; empty when it is fair
+}
+
+// Moves between two cells, or Infinity when walls keep them apart
+type Distance = (a: Position, b: Position) => number;
+
+// Targets this close to a Troggle's start are guarded
+const GUARD_DISTANCE = 1;
+
+// A board is unfair when more than this share of its targets is guarded
+const MAX_GUARDED_SHARE = 0.5;
+
+// A Troggle this close to the Muncher's start can catch it on its first move
+const MIN_START_DISTANCE = 2;
+
+const DIRECTIONS: Position[] = [
+  { row: -1, col: 0 }, { row: 1, col: 0 },
+  { row: 0, col: -1 }, { row: 0, col: 1 }
+];
+
+// Breadth-first search from one cell to every other, going round walls
+function distancesFrom(grid: Cell[][], start: Position): number[][] {
+  const distances = grid.map(row => row.map(() => Infinity));
+  distances[start.row][start.col] = 0;
+  const queue = [start];
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    for (const direction of DIRECTIONS) {
+      const row = current.row + direction.row;
+      const col = current.col + direction.col;
+      if (grid[row]?.[col] && !grid[row][col].wall && distances[row][col] === Infinity) {
+        distances[row][col] = distances[current.row][current.col] + 1;
+        queue.push({ row, col });
+      }
+    }
+  }
+  return distances;
+}
+
+// Manhattan distance on open boards. Boards with walls search once from each
+// cell a distance is asked from.
+function measureDistances(grid: Cell[][]): Distance {
+  if (!grid.flat().some(cell => cell.wall)) {
+    return (a, b) => Math.abs(a.row - b.row) + Math.abs(a.col - b.col);
+  }
+  const searched = new Map<string, number[][]>();
+  return (a, b) => {
+    const key = `${a.row},${a.col}`;
+    if (!searched.has(key)) searched.set(key, distancesFrom(grid, a));
+    return searched.get(key)![b.row][b.col];
+  };
+}
+
+function pathLength(path: Position[], distance: Distance): number {
+  let total = 0;
+  for (let i = 1; i < path.length; i++) {
+    total += distance(path[i - 1], path[i]);
+  }
+  return total;
+}
+
+// Greedy first guess: always walk to the closest target not yet visited
+function nearestNeighbourTour(start: Position, targets: Position[], distance: Distance): Position[] {
+  const remaining = [...targets];
+  const tour: Position[] = [];
+  let current = start;
+  while (remaining.length > 0) {
+    let nearest = 0;
+    for (let i = 1; i < remaining.length; i++) {
+      if (distance(current, remaining[i]) < distance(current, remaining[nearest])) {
+        nearest = i;
+      }
+    }
+    current = remaining.splice(nearest, 1)[0];
+    tour.push(current);
+  }
+  return tour;
+}
+
+// 2-opt: reverse any stretch of the tour that makes it shorter. The tour starts
+// at the Muncher and does not return, so the last stop has no edge after it.
+function reverseStretches(path: Position[], distance: Distance): boolean {
+  let improved = false;
+  for (let i = 1; i < path.length - 1; i++) {
+    for (let j = i + 1; j < path.length; j++) {
+      const before = distance(path[i - 1], path[i]) + (j + 1 < path.length ? distance(path[j], path[j + 1]) : 0);
+      const after = distance(path[i - 1], path[j]) + (j + 1 < path.length ? distance(path[i], path[j + 1]) : 0);
+      if (after < before) {
+        const reversed = path.slice(i, j + 1).reverse();
+        path.splice(i, reversed.length, ...reversed);
+        improved = true;
+      }
+    }
+  }
+  return improved;
+}
+
+// Or-opt: move a single stop to wherever in the tour it costs least
+function moveStops(path: Position[], distance: Distance): boolean {
+  let improved = false;
+  for (let i = 1; i < path.length; i++) {
+    const length = pathLength(path, distance);
+    const [stop] = path.splice(i, 1);
+    let best = i;
+    let bestLength = length;
+    for (let j = 1; j <= path.length; j++) {
+      path.splice(j, 0, stop);
+      const candidate = pathLength(path, distance);
+      if (candidate < bestLength) {
+        best = j;
+        bestLength = candidate;
+      }
+      path.splice(j, 1);
+    }
+    path.splice(best, 0, stop);
+    if (best !== i) improved = true;
+  }
+  return improved;
+}
+
+// Polish the greedy tour until neither kind of change shortens it
+function improveTour(start: Position, tour: Position[], distance: Distance): Position[] {
+  const path = [start, ...tour];
+  let improved = true;
+  while (improved) {
+    const reversed = reverseStretches(path, distance);
+    const moved = moveStops(path, distance);
+    improved = reversed || moved;
+  }
+  return path.slice(1);
+}
+
+export function analyzeBoard(grid: Cell[][], muncher: Position, troggles: Position[]): BoardAnalysis {
+  const distance = measureDistances(grid);
+  const targets: Position[] = [];
+  grid.forEach((row, r) => row.forEach((cell, c) => {
+    if (cell.isTarget) targets.push({ row: r, col: c });
+  }));
+
+  const reachableTargets = targets.filter(target => distance(muncher, target) < Infinity);
+  const unreachableTargets = targets.filter(target => distance(muncher, target) === Infinity);
+  const tour = improveTour(muncher, nearestNeighbourTour(muncher, reachableTargets, distance), distance);
+  const guardedTargets = targets.filter(target =>
+    troggles.some(troggle => distance(troggle, target) <= GUARD_DISTANCE)
+  );
+
+  const problems: string[] = [];
+  if (targets.length === 0) {
+    problems.push('Board has no targets');
+  }
+  if (unreachableTargets.length > 0) {
+    problems.push(`${unreachableTargets.length} of ${targets.length} targets are walled off from the Muncher`);
+  }
+  if (targets.length > 1 && guardedTargets.length > targets.length * MAX_GUARDED_SHARE) {
+    problems.push(`${guardedTargets.length} of ${targets.length} targets are next to a Troggle's start`);
+  }
+  if (troggles.some(troggle => distance(troggle, muncher) < MIN_START_DISTANCE)) {
+    problems.push('A Troggle starts next to the Muncher');
+  }
+
+  return {
+    targets,
+    tour,
+    tourLength: pathLength([muncher, ...tour], distance),
+    guardedTargets,
+    unreachableTargets,
+    problems
+  };
+}
+
+export function isFairBoard(analysis: BoardAnalysis): boolean {
+  return analysis.problems.length === 0;
+}
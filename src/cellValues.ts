@@ -0,0 +1,159 @@
+import type {
+  BaseNumberValue,
+  CellValue,
+  ClockValue,
+  CoinsValue,
+  FractionValue,
+  NumberBase,
+  PercentValue,
+  RomanPairValue,
+  ShapeValue,
+  WordsValue
+} from './types';
+import { decimalToFraction, gcd } from './mathUtils';
+import { describeCoins } from './currencies';
+import { getShape } from './shapes';
+import { DEFAULT_LOCALE, formatPhrase } from './phrases';
+
+// Helpers for the non-primitive values a Cell can hold
+
+export function isNumber(value: CellValue): value is number {
+  return typeof value === 'number';
+}
+
+export function fraction(numerator: number, denominator: number): FractionValue {
+  return { kind: 'fraction', numerator, denominator };
+}
+
+export function isFraction(value: CellValue): value is FractionValue {
+  return typeof value === 'object' && value.kind === 'fraction';
+}
+
+export function percent(value: number): PercentValue {
+  return { kind: 'percent', percent: value };
+}
+
+export function isPercent(value: CellValue): value is PercentValue {
+  return typeof value === 'object' && value.kind === 'percent';
+}
+
+export function coins(currency: string, counts: CoinsValue['coins']): CoinsValue {
+  return { kind: 'coins', currency, coins: counts };
+}
+
+export function isCoins(value: CellValue): value is CoinsValue {
+  return typeof value === 'object' && value.kind === 'coins';
+}
+
+export function clock(hours: number, minutes: number, face: ClockValue['face'] = 'numbers'): ClockValue {
+  return { kind: 'clock', hours, minutes, face };
+}
+
+export function isClock(value: CellValue): value is ClockValue {
+  return typeof value === 'object' && value.kind === 'clock';
+}
+
+export function shape(id: string, rotation = 0): ShapeValue {
+  return { kind: 'shape', shape: id, rotation };
+}
+
+export function isShape(value: CellValue): value is ShapeValue {
+  return typeof value === 'object' && value.kind === 'shape';
+}
+
+export function words(phrase: string, operand: number, locale = DEFAULT_LOCALE): WordsValue {
+  return { kind: 'words', phrase, operand, locale };
+}
+
+export function isWords(value: CellValue): value is WordsValue {
+  return typeof value === 'object' && value.kind === 'words';
+}
+
+export function baseNumber(value: number, base: NumberBase, digits = 1, prefix = true): BaseNumberValue {
+  return { kind: 'baseNumber', value, base, digits, prefix };
+}
+
+export function isBaseNumber(value: CellValue): value is BaseNumberValue {
+  return typeof value === 'object' && value.kind === 'baseNumber';
+}
+
+const BASE_PREFIXES: Record<NumberBase, string> = { 2: '0b', 8: '0o', 16: '0x' };
+
+// "0b1010", "0x0A" or, without the prefix, "1010"
+export function formatBaseNumber({ value, base, digits, prefix }: BaseNumberValue): string {
+  const written = value.toString(base).toUpperCase().padStart(digits, '0');
+  return prefix ? `${BASE_PREFIXES[base]}${written}` : written;
+}
+
+export function romanPair(roman: string, arabic: number): RomanPairValue {
+  return { kind: 'romanPair', roman, arabic };
+}
+
+export function isRomanPair(value: CellValue): value is RomanPairValue {
+  return typeof value === 'object' && value.kind === 'romanPair';
+}
+
+// "3:05"
+export function formatTime(hours: number, minutes: number): string {
+  return `${hours}:${String(minutes).padStart(2, '0')}`;
+}
+
+// Two ten-frames or four tally bundles are as much as fits in one cell
+const MAX_PICTURED = 20;
+
+// Whether a number can be drawn as dots, ten-frames or tally marks
+export function canPicture(value: CellValue): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value >= 1 && value <= MAX_PICTURED;
+}
+
+// Plain-text form of a value, used for logging and to de-duplicate generated values
+export function formatCellValue(value: CellValue): string {
+  if (isFraction(value)) return `${value.numerator}/${value.denominator}`;
+  if (isPercent(value)) return `${value.percent}%`;
+  if (isCoins(value)) return describeCoins(value);
+  // The face is kept so the same time on a different dial counts as a different value
+  if (isClock(value)) return `${formatTime(value.hours, value.minutes)} (${value.face})`;
+  if (isWords(value)) return formatPhrase(value);
+  if (isBaseNumber(value)) return formatBaseNumber(value);
+  if (isRomanPair(value)) return `${value.roman} = ${value.arabic}`;
+  if (isShape(value)) {
+    const name = getShape(value.shape)?.name ?? value.shape;
+    return value.rotation ? `${name} turned ${value.rotation}°` : name;
+  }
+  return String(value);
+}
+
+export function cellValuesEqual(a: CellValue, b: CellValue): boolean {
+  return formatCellValue(a) === formatCellValue(b);
+}
+
+// === QUANTITIES ===
+// Numbers, fractions and percents can all name the same amount ("25%", "1/4", 0.25).
+// These compare them exactly as reduced fractions, so 0.1 + 0.2 style rounding never matters.
+
+function reduced(numerator: number, denominator: number): FractionValue | null {
+  if (denominator === 0) return null;
+  const divisor = gcd(numerator, denominator) || 1;
+  const sign = denominator < 0 ? -1 : 1;
+  return fraction(sign * numerator / divisor, sign * denominator / divisor);
+}
+
+// The amount a value stands for, or null for values like "3+4" that are not a quantity
+export function toQuantity(value: CellValue): FractionValue | null {
+  if (isFraction(value)) return reduced(value.numerator, value.denominator);
+  if (isPercent(value)) {
+    const exact = decimalToFraction(value.percent);
+    return exact && reduced(exact.numerator, exact.denominator * 100);
+  }
+  if (typeof value === 'number') {
+    const exact = decimalToFraction(value);
+    return exact && reduced(exact.numerator, exact.denominator);
+  }
+  return null;
+}
+
+export function isSameQuantity(value: CellValue, amount: number): boolean {
+  const a = toQuantity(value);
+  const b = toQuantity(amount);
+  return a !== null && b !== null && a.numerator === b.numerator && a.denominator === b.denominator;
+}
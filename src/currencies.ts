@@ -0,0 +1,89 @@
+import type { CoinsValue, Currency, Denomination } from './types';
+
+// === CURRENCY DEFINITIONS ===
+// The money rule works with any currency listed here. To use local coins, add a
+// definition and set `currency` on the level parameters.
+
+export const DEFAULT_CURRENCY = 'USD';
+
+export const CURRENCIES: Record<string, Currency> = {
+  USD: {
+    id: 'USD',
+    name: 'US dollar',
+    majorSymbol: '$',
+    minorSymbol: '¢',
+    denominations: [
+      { id: 'penny', name: 'penny', plural: 'pennies', value: 1, type: 'coin', symbol: '1¢', color: '#c87533' },
+      { id: 'nickel', name: 'nickel', plural: 'nickels', value: 5, type: 'coin', symbol: '5¢', color: '#b8b8b8' },
+      { id: 'dime', name: 'dime', plural: 'dimes', value: 10, type: 'coin', symbol: '10¢', color: '#d0d0d0' },
+      { id: 'quarter', name: 'quarter', plural: 'quarters', value: 25, type: 'coin', symbol: '25¢', color: '#c0c0c0' },
+      { id: 'dollar', name: 'dollar bill', plural: 'dollar bills', value: 100, type: 'bill', symbol: '$1', color: '#85bb65' }
+    ]
+  },
+  EUR: {
+    id: 'EUR',
+    name: 'euro',
+    majorSymbol: '€',
+    minorSymbol: 'c',
+    denominations: [
+      { id: '1c', name: '1 cent coin', plural: '1 cent coins', value: 1, type: 'coin', symbol: '1c', color: '#c87533' },
+      { id: '2c', name: '2 cent coin', plural: '2 cent coins', value: 2, type: 'coin', symbol: '2c', color: '#c87533' },
+      { id: '5c', name: '5 cent coin', plural: '5 cent coins', value: 5, type: 'coin', symbol: '5c', color: '#c87533' },
+      { id: '10c', name: '10 cent coin', plural: '10 cent coins', value: 10, type: 'coin', symbol: '10c', color: '#d4af37' },
+      { id: '20c', name: '20 cent coin', plural: '20 cent coins', value: 20, type: 'coin', symbol: '20c', color: '#d4af37' },
+      { id: '50c', name: '50 cent coin', plural: '50 cent coins', value: 50, type: 'coin', symbol: '50c', color: '#d4af37' },
+      { id: '1e', name: '1 euro coin', plural: '1 euro coins', value: 100, type: 'coin', symbol: '€1', color: '#e0c068' },
+      { id: '2e', name: '2 euro coin', plural: '2 euro coins', value: 200, type: 'coin', symbol: '€2', color: '#c0c0c0' }
+    ]
+  },
+  GBP: {
+    id: 'GBP',
+    name: 'pound sterling',
+    majorSymbol: '£',
+    minorSymbol: 'p',
+    denominations: [
+      { id: '1p', name: '1p coin', plural: '1p coins', value: 1, type: 'coin', symbol: '1p', color: '#c87533' },
+      { id: '2p', name: '2p coin', plural: '2p coins', value: 2, type: 'coin', symbol: '2p', color: '#c87533' },
+      { id: '5p', name: '5p coin', plural: '5p coins', value: 5, type: 'coin', symbol: '5p', color: '#c0c0c0' },
+      { id: '10p', name: '10p coin', plural: '10p coins', value: 10, type: 'coin', symbol: '10p', color: '#c0c0c0' },
+      { id: '20p', name: '20p coin', plural: '20p coins', value: 20, type: 'coin', symbol: '20p', color: '#c0c0c0' },
+      { id: '50p', name: '50p coin', plural: '50p coins', value: 50, type: 'coin', symbol: '50p', color: '#c0c0c0' },
+      { id: '1pound', name: '£1 coin', plural: '£1 coins', value: 100, type: 'coin', symbol: '£1', color: '#d4af37' }
+    ]
+  }
+};
+
+export function getCurrency(id: string = DEFAULT_CURRENCY): Currency {
+  return CURRENCIES[id] ?? CURRENCIES[DEFAULT_CURRENCY];
+}
+
+export function getDenomination(currency: Currency, id: string): Denomination | undefined {
+  return currency.denominations.find(denomination => denomination.id === id);
+}
+
+// 75 -> "75¢", 125 -> "$1.25"
+export function formatAmount(amount: number, currency: Currency): string {
+  if (amount < 100) return `${amount}${currency.minorSymbol}`;
+  return `${currency.majorSymbol}${(amount / 100).toFixed(2)}`;
+}
+
+// Total in the smallest unit; unknown denominations count as nothing
+export function coinsTotal(value: CoinsValue): number {
+  const currency = getCurrency(value.currency);
+  return value.coins.reduce(
+    (total, { denomination, count }) => total + (getDenomination(currency, denomination)?.value ?? 0) * count,
+    0
+  );
+}
+
+// "2 quarters + 1 dime"
+export function describeCoins(value: CoinsValue): string {
+  const currency = getCurrency(value.currency);
+  return value.coins
+    .map(({ denomination, count }) => {
+      const definition = getDenomination(currency, denomination);
+      const name = definition ? (count === 1 ? definition.name : definition.plural) : denomination;
+      return `${count} ${name}`;
+    })
+    .join(' + ');
+}
@@ -1,5 +1,5 @@
-import type { Position, EnemyType, EnemyAI, TroggleState, LevelGameState } from './types';
-import { randInt } from './gameUtils';
+import type { Position, EnemyType, EnemyAI, TroggleState, LevelGameState, Random } from './types';
+import { randChoice } from './mathUtils';
 
 // === ENEMY AI SYSTEM ===
 
@@ -63,7 +63,8 @@ export function createEnemyAI(type: EnemyType, difficultyLevel: number = 1): Ene
 export function calculateNextMove(
   troggle: TroggleState, 
   gameState: LevelGameState,
-  allTroggles: TroggleState[]
+  allTroggles: TroggleState[],
+  random: Random
 ): Position {
   const { position, ai } = troggle;
   const muncher = gameState.muncher;
@@ -76,22 +77,22 @@ export function calculateNextMove(
   
   switch (ai.type) {
     case 'standard':
-      return calculateStandardMove(position, muncher, grid, ai);
+      return calculateStandardMove(position, muncher, grid, ai, random);
       
     case 'speed':
-      return calculateSpeedMove(position, muncher, grid, ai);
+      return calculateSpeedMove(position, muncher, grid, ai, random);
       
     case 'smart':
-      return calculateSmartMove(position, muncher, grid, ai, troggle);
+      return calculateSmartMove(position, muncher, grid, ai, troggle, random);
       
     case 'blocker':
-      return calculateBlockerMove(position, muncher, grid, ai, gameState);
+      return calculateBlockerMove(position, muncher, grid, ai, gameState, random);
       
     case 'hunter':
-      return calculateHunterMove(position, muncher, grid, ai, allTroggles);
+      return calculateHunterMove(position, muncher, grid, ai, allTroggles, random);
       
     default:
-      return calculateStandardMove(position, muncher, grid, ai);
+      return calculateStandardMove(position, muncher, grid, ai, random);
   }
 }
 
@@ -101,18 +102,19 @@ function calculateStandardMove(
   position: Position, 
   muncher: Position, 
   grid: any[][], 
-  ai: EnemyAI
+  ai: EnemyAI,
+  random: Random
 ): Position {
   const rows = grid.length;
   const cols = grid[0]?.length || 0;
   
   // Mix of random movement and occasional tracking
-  if (Math.random() < ai.intelligence) {
+  if (random.next() < ai.intelligence) {
     // Try to move toward muncher
-    return moveTowardTarget(position, muncher, rows, cols);
+    return moveTowardTarget(position, muncher, rows, cols, random);
   } else {
     // Random movement
-    return getRandomAdjacentPosition(position, rows, cols);
+    return getRandomAdjacentPosition(position, rows, cols, random);
   }
 }
 
@@ -120,16 +122,17 @@ function calculateSpeedMove(
   position: Position, 
   muncher: Position, 
   grid: any[][], 
-  ai: EnemyAI
+  ai: EnemyAI,
+  random: Random
 ): Position {
   // Speed Troggles are more aggressive and direct
   const rows = grid.length;
   const cols = grid[0]?.length || 0;
   
-  if (Math.random() < ai.aggressiveness) {
-    return moveTowardTarget(position, muncher, rows, cols);
+  if (random.next() < ai.aggressiveness) {
+    return moveTowardTarget(position, muncher, rows, cols, random);
   } else {
-    return getRandomAdjacentPosition(position, rows, cols);
+    return getRandomAdjacentPosition(position, rows, cols, random);
   }
 }
 
@@ -138,7 +141,8 @@ function calculateSmartMove(
   muncher: Position, 
   grid: any[][], 
   _ai: EnemyAI,
-  troggle: TroggleState
+  troggle: TroggleState,
+  random: Random
 ): Position {
   const rows = grid.length;
   const cols = grid[0]?.length || 0;
@@ -157,7 +161,7 @@ function calculateSmartMove(
   }
   
   // Fallback to moving toward target
-  return moveTowardTarget(position, muncher, rows, cols);
+  return moveTowardTarget(position, muncher, rows, cols, random);
 }
 
 function calculateBlockerMove(
@@ -165,7 +169,8 @@ function calculateBlockerMove(
   muncher: Position, 
   grid: any[][], 
   _ai: EnemyAI,
-  gameState: LevelGameState
+  gameState: LevelGameState,
+  random: Random
 ): Position {
   const rows = grid.length;
   const cols = grid[0]?.length || 0;
@@ -179,12 +184,12 @@ function calculateBlockerMove(
     const blockPosition = getBlockingPosition(muncher, target, position);
     
     if (blockPosition) {
-      return moveTowardTarget(position, blockPosition, rows, cols);
+      return moveTowardTarget(position, blockPosition, rows, cols, random);
     }
   }
   
   // Fallback to standard movement
-  return moveTowardTarget(position, muncher, rows, cols);
+  return moveTowardTarget(position, muncher, rows, cols, random);
 }
 
 function calculateHunterMove(
@@ -192,7 +197,8 @@ function calculateHunterMove(
   muncher: Position, 
   grid: any[][], 
   _ai: EnemyAI,
-  allTroggles: TroggleState[]
+  allTroggles: TroggleState[],
+  random: Random
 ): Position {
   const rows = grid.length;
   const cols = grid[0]?.length || 0;
@@ -206,12 +212,12 @@ function calculateHunterMove(
     // Try to coordinate positioning to surround the muncher
     const surroundPosition = calculateSurroundPosition(muncher, position, otherHunters);
     if (surroundPosition) {
-      return moveTowardTarget(position, surroundPosition, rows, cols);
+      return moveTowardTarget(position, surroundPosition, rows, cols, random);
     }
   }
   
   // Direct pursuit with high aggression
-  return moveTowardTarget(position, muncher, rows, cols);
+  return moveTowardTarget(position, muncher, rows, cols, random);
 }
 
 // === UTILITY FUNCTIONS ===
@@ -220,7 +226,8 @@ function moveTowardTarget(
   current: Position, 
   target: Position, 
   maxRows: number, 
-  maxCols: number
+  maxCols: number,
+  random: Random
 ): Position {
   const { row, col } = current;
   let newRow = row;
@@ -236,7 +243,7 @@ function moveTowardTarget(
   // Only move in one direction per turn (horizontal or vertical)
   if (newRow !== row && newCol !== col) {
     // Choose direction randomly
-    if (Math.random() < 0.5) {
+    if (random.next() < 0.5) {
       newCol = col; // Move vertically
     } else {
       newRow = row; // Move horizontally
@@ -249,7 +256,8 @@ function moveTowardTarget(
 function getRandomAdjacentPosition(
   position: Position, 
   maxRows: number, 
-  maxCols: number
+  maxCols: number,
+  random: Random
 ): Position {
   const { row, col } = position;
   const directions = [
@@ -268,7 +276,7 @@ function getRandomAdjacentPosition(
   
   if (validMoves.length === 0) return position;
   
-  return validMoves[randInt(0, validMoves.length - 1)];
+  return randChoice(validMoves, random);
 }
 
 function isValidPosition(pos: Position, maxRows: number, maxCols: number): boolean {
@@ -305,7 +313,7 @@ function findPath(start: Position, end: Position, grid: any[][]): Position[] {
         col: pos.col + dir.col
       };
       
-      if (isValidPosition(newPos, rows, cols) && !visited.has(`${newPos.row},${newPos.col}`)) {
+      if (isValidPosition(newPos, rows, cols) && !grid[newPos.row][newPos.col].wall && !visited.has(`${newPos.row},${newPos.col}`)) {
         queue.push({
           pos: newPos,
           path: [...path, newPos]
@@ -0,0 +1,361 @@
+// Small arithmetic expression parser and evaluator for cell values like "3+4-2",
+// "2×(3+1)", "-3+8" or "2^3". Used by every expression rule for generating and checking.
+// Also reads one-variable equations like "2x=14" and absolute values like "|3-10|".
+
+export type Operator = '+' | '-' | '×' | '÷' | '^';
+
+export type ExpressionNode =
+  | { kind: 'number'; value: number }
+  | { kind: 'variable' }   // The unknown x
+  | { kind: 'negate'; operand: ExpressionNode }
+  | { kind: 'abs'; operand: ExpressionNode }
+  | { kind: 'binary'; operator: Operator; left: ExpressionNode; right: ExpressionNode };
+
+export type Equation = { left: ExpressionNode; right: ExpressionNode };
+
+type Token =
+  | { type: 'number'; value: number }
+  | { type: 'variable' }
+  | { type: 'operator'; value: Operator }
+  | { type: 'paren'; value: '(' | ')' }
+  | { type: 'bar' };  // Absolute value delimiter
+
+// Accept keyboard-friendly and typographic spellings of each operator
+const OPERATOR_ALIASES: Record<string, Operator> = {
+  '+': '+',
+  '-': '-',
+  '−': '-',
+  '×': '×',
+  '*': '×',
+  '÷': '÷',
+  '/': '÷',
+  '^': '^'
+};
+
+const PRECEDENCE: Record<Operator, number> = { '+': 1, '-': 1, '×': 2, '÷': 2, '^': 3 };
+
+// === NODE CONSTRUCTORS ===
+
+export function num(value: number): ExpressionNode {
+  return { kind: 'number', value };
+}
+
+export function variable(): ExpressionNode {
+  return { kind: 'variable' };
+}
+
+export function negate(operand: ExpressionNode): ExpressionNode {
+  return { kind: 'negate', operand };
+}
+
+export function abs(operand: ExpressionNode | number): ExpressionNode {
+  return { kind: 'abs', operand: typeof operand === 'number' ? num(operand) : operand };
+}
+
+export function binary(operator: Operator, left: ExpressionNode | number, right: ExpressionNode | number): ExpressionNode {
+  return {
+    kind: 'binary',
+    operator,
+    left: typeof left === 'number' ? num(left) : left,
+    right: typeof right === 'number' ? num(right) : right
+  };
+}
+
+// === TOKENIZER ===
+
+function tokenize(text: string): Token[] | null {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < text.length) {
+    const ch = text[i];
+
+    if (ch === ' ') {
+      i++;
+    } else if (/[0-9.]/.test(ch)) {
+      let end = i;
+      while (end < text.length && /[0-9.]/.test(text[end])) end++;
+      const value = Number(text.slice(i, end));
+      if (Number.isNaN(value)) return null;
+      tokens.push({ type: 'number', value });
+      i = end;
+    } else if (ch === 'x') {
+      // "2x" is shorthand for "2×x"
+      if (tokens[tokens.length - 1]?.type === 'number') {
+        tokens.push({ type: 'operator', value: '×' });
+      }
+      tokens.push({ type: 'variable' });
+      i++;
+    } else if (ch in OPERATOR_ALIASES) {
+      tokens.push({ type: 'operator', value: OPERATOR_ALIASES[ch] });
+      i++;
+    } else if (ch === '(' || ch === ')') {
+      tokens.push({ type: 'paren', value: ch });
+      i++;
+    } else if (ch === '|') {
+      tokens.push({ type: 'bar' });
+      i++;
+    } else {
+      return null; // Unknown character
+    }
+  }
+
+  return tokens;
+}
+
+// === PARSER ===
+// Recursive descent with the usual order of operations:
+//   expression := term (('+' | '-') term)*
+//   term       := unary (('×' | '÷') unary)*
+//   unary      := '-' unary | power
+//   power      := primary ('^' unary)?    (right-associative, and -2^2 is -(2^2))
+//   primary    := number | 'x' | '(' expression ')' | '|' expression '|'
+
+export function parseExpression(text: string): ExpressionNode | null {
+  const tokens = tokenize(text);
+  if (!tokens || tokens.length === 0) return null;
+
+  let pos = 0;
+  const peek = (): Token | undefined => tokens[pos];
+
+  const parseAdditive = (): ExpressionNode | null => {
+    let left = parseMultiplicative();
+    while (left) {
+      const token = peek();
+      if (token?.type !== 'operator' || PRECEDENCE[token.value] !== 1) break;
+      pos++;
+      const right = parseMultiplicative();
+      if (!right) return null;
+      left = binary(token.value, left, right);
+    }
+    return left;
+  };
+
+  const parseMultiplicative = (): ExpressionNode | null => {
+    let left = parseUnary();
+    while (left) {
+      const token = peek();
+      if (token?.type !== 'operator' || PRECEDENCE[token.value] !== 2) break;
+      pos++;
+      const right = parseUnary();
+      if (!right) return null;
+      left = binary(token.value, left, right);
+    }
+    return left;
+  };
+
+  const parseUnary = (): ExpressionNode | null => {
+    const token = peek();
+    if (token?.type === 'operator' && token.value === '-') {
+      pos++;
+      const operand = parseUnary();
+      return operand ? negate(operand) : null;
+    }
+    return parsePower();
+  };
+
+  const parsePower = (): ExpressionNode | null => {
+    const base = parsePrimary();
+    const token = peek();
+    if (!base || token?.type !== 'operator' || token.value !== '^') return base;
+    pos++;
+    const exponent = parseUnary();
+    return exponent ? binary('^', base, exponent) : null;
+  };
+
+  const parsePrimary = (): ExpressionNode | null => {
+    const token = peek();
+    if (!token) return null;
+
+    if (token.type === 'number') {
+      pos++;
+      return num(token.value);
+    }
+
+    if (token.type === 'variable') {
+      pos++;
+      return variable();
+    }
+
+    if (token.type === 'paren' && token.value === '(') {
+      pos++;
+      const inner = parseAdditive();
+      const closing = peek();
+      if (!inner || closing?.type !== 'paren' || closing.value !== ')') return null;
+      pos++;
+      return inner;
+    }
+
+    if (token.type === 'bar') {
+      pos++;
+      const inner = parseAdditive();
+      if (!inner || peek()?.type !== 'bar') return null;
+      pos++;
+      return abs(inner);
+    }
+
+    return null;
+  };
+
+  const node = parseAdditive();
+  // Reject trailing tokens such as "3+4)"
+  return node && pos === tokens.length ? node : null;
+}
+
+// === EVALUATION ===
+
+// Results within this distance count as equal, so "0.1+0.2" still equals 0.3
+export const EPSILON = 1e-9;
+
+// Returns null for division by zero so callers never see Infinity or NaN.
+// Expressions containing x only have a value when x is given.
+export function evaluate(node: ExpressionNode, x?: number): number | null {
+  switch (node.kind) {
+    case 'number':
+      return node.value;
+
+    case 'variable':
+      return x ?? null;
+
+    case 'negate': {
+      const value = evaluate(node.operand, x);
+      return value === null ? null : -value;
+    }
+
+    case 'abs': {
+      const value = evaluate(node.operand, x);
+      return value === null ? null : Math.abs(value);
+    }
+
+    case 'binary': {
+      const left = evaluate(node.left, x);
+      const right = evaluate(node.right, x);
+      if (left === null || right === null) return null;
+      switch (node.operator) {
+        case '+': return left + right;
+        case '-': return left - right;
+        case '×': return left * right;
+        case '÷': return right === 0 ? null : left / right;
+        case '^': {
+          const power = Math.pow(left, right);
+          return Number.isFinite(power) ? power : null;
+        }
+      }
+    }
+  }
+}
+
+export function evaluateExpression(text: string): number | null {
+  const node = parseExpression(text);
+  return node ? evaluate(node) : null;
+}
+
+// Binary operators used anywhere in the expression (unary minus is not counted)
+export function operatorsIn(node: ExpressionNode): Set<Operator> {
+  const operators = new Set<Operator>();
+  const visit = (current: ExpressionNode) => {
+    if (current.kind === 'negate' || current.kind === 'abs') {
+      visit(current.operand);
+    } else if (current.kind === 'binary') {
+      operators.add(current.operator);
+      visit(current.left);
+      visit(current.right);
+    }
+  };
+  visit(node);
+  return operators;
+}
+
+// Numbers written in the expression, with a unary minus applied: "-3+8" gives -3 and 8
+export function numbersIn(node: ExpressionNode): number[] {
+  if (node.kind === 'number') return [node.value];
+  if (node.kind === 'negate' && node.operand.kind === 'number') return [-node.operand.value];
+  if (node.kind === 'negate' || node.kind === 'abs') return numbersIn(node.operand);
+  if (node.kind === 'binary') return [...numbersIn(node.left), ...numbersIn(node.right)];
+  return [];
+}
+
+// True when every intermediate result is a whole number (no "7÷2" halfway through)
+export function hasWholeNumberSteps(node: ExpressionNode): boolean {
+  const value = evaluate(node);
+  if (value === null || !Number.isInteger(value)) return false;
+  if (node.kind === 'negate' || node.kind === 'abs') return hasWholeNumberSteps(node.operand);
+  if (node.kind === 'binary') return hasWholeNumberSteps(node.left) && hasWholeNumberSteps(node.right);
+  return true;
+}
+
+// === FORMATTING ===
+
+// Render a tree with only the parentheses the order of operations requires
+export function formatExpression(node: ExpressionNode): string {
+  switch (node.kind) {
+    case 'number':
+      return String(node.value);
+
+    case 'variable':
+      return 'x';
+
+    case 'negate': {
+      const inner = formatExpression(node.operand);
+      const bare = node.operand.kind === 'abs' || (node.operand.kind === 'number' && node.operand.value >= 0);
+      return bare ? `-${inner}` : `-(${inner})`;
+    }
+
+    case 'abs':
+      return `|${formatExpression(node.operand)}|`;
+
+    case 'binary': {
+      // "2x" rather than "2×x"
+      if (node.operator === '×' && node.left.kind === 'number' && node.left.value >= 0 && node.right.kind === 'variable') {
+        return `${node.left.value}x`;
+      }
+      const precedence = PRECEDENCE[node.operator];
+      const wrap = (child: ExpressionNode, isRight: boolean): string => {
+        const text = formatExpression(child);
+        if (child.kind === 'negate' || (child.kind === 'number' && child.value < 0)) {
+          // Keep "5+(-3)" readable instead of "5+-3"
+          return isRight || precedence >= 2 ? `(${text})` : text;
+        }
+        if (child.kind !== 'binary') return text;
+        const childPrecedence = PRECEDENCE[child.operator];
+        const needsParens = childPrecedence < precedence ||
+          (isRight && childPrecedence === precedence && (node.operator === '-' || node.operator === '÷')) ||
+          (!isRight && childPrecedence === precedence && node.operator === '^');
+        return needsParens ? `(${text})` : text;
+      };
+      return `${wrap(node.left, false)}${node.operator}${wrap(node.right, true)}`;
+    }
+  }
+}
+
+// === EQUATIONS ===
+
+export function parseEquation(text: string): Equation | null {
+  const sides = text.split('=');
+  if (sides.length !== 2) return null;
+  const left = parseExpression(sides[0]);
+  const right = parseExpression(sides[1]);
+  return left && right ? { left, right } : null;
+}
+
+// Value of x that makes both sides equal, or null when there is no single answer.
+// Treats left - right as a straight line a·x + b, then checks the answer really works
+// (so equations like "12÷x=3" that are not linear in x are rejected).
+export function solveEquation({ left, right }: Equation): number | null {
+  const difference = (x: number): number | null => {
+    const l = evaluate(left, x);
+    const r = evaluate(right, x);
+    return l === null || r === null ? null : l - r;
+  };
+  const atZero = difference(0);
+  const atOne = difference(1);
+  if (atZero === null || atOne === null || atOne === atZero) return null;
+
+  const solution = -atZero / (atOne - atZero);
+  const check = difference(solution);
+  return check !== null && Math.abs(check) < EPSILON ? solution : null;
+}
+
+export function formatEquation({ left, right }: Equation): string {
+  return `${formatExpression(left)}=${formatExpression(right)}`;
+}
@@ -1,34 +1,40 @@
-import type { Cell, GameRule, Position } from './types';
+import type { BoardLayout, Cell, CellValue, Distractor, GridOptions, Position, Random, RuleDefinition, RuleSpec, RuleTarget } from './types';
+import { DEFAULT_NUMBER_RANGE, createRandom, isPrime, randChoice, randInt, randomSeed, shuffle } from './mathUtils';
+import { numbersIn, operatorsIn, parseExpression } from './expressionParser';
+import { MIN_CORRECT_VALUES, getRule } from './rules';
+import { cellValuesEqual } from './cellValues';
 
-// Utility to generate a random integer between min and max (inclusive)
-export function randInt(min: number, max: number): number {
-  return Math.floor(Math.random() * (max - min + 1)) + min;
-}
+const DEFAULT_TARGET_COUNT = { min: 3, max: 8 };
 
-// Check if a number is prime
-export function isPrime(n: number): boolean {
-  if (n < 2) return false;
-  for (let i = 2; i * i <= n; i++) {
-    if (n % i === 0) return false;
-  }
-  return true;
+// GridOptions with the defaults filled in
+type GridSettings = Required<Omit<GridOptions, 'rule' | 'target'>>;
+
+// Generate a grid of numbers and mark targets based on the rule. Every random
+// pick, including the ones the rule makes, comes from options.random, so a
+// seeded generator always gives the same board.
+export function generateGrid(options: GridOptions): Cell[][] {
+  const random = options.random ?? createRandom(randomSeed());
+  const settings: GridSettings = {
+    rows: options.rows,
+    cols: options.cols,
+    random,
+    numberRange: options.numberRange ?? DEFAULT_NUMBER_RANGE,
+    targetCount: options.targetCount ?? DEFAULT_TARGET_COUNT,
+    allowDuplicates: options.allowDuplicates ?? true
+  };
+  return buildGrid(settings, options.rule, options.target, 0);
 }
 
-// Generate a grid of numbers and mark targets based on the rule
-export function generateGrid(
-  rows: number,
-  cols: number,
-  rule: GameRule,
-  targetNumber: number,
-  attempts: number = 0
-): Cell[][] {
+function buildGrid(settings: GridSettings, rule: RuleSpec, target: RuleTarget, attempts: number): Cell[][] {
+  const { rows, cols, random, numberRange, targetCount, allowDuplicates } = settings;
   const totalCells = rows * cols;
+  const definition = getRule(rule);
   
   // Prevent infinite recursion
   if (attempts > 10) {
     // Fallback to a simple rule that always works
     if (rule !== 'primes') {
-      return generateGrid(rows, cols, 'primes', 0, 0);
+      return buildGrid(settings, 'primes', { targetNumber: 0, numberRange: target.numberRange }, 0);
     } else {
       // If even primes fail, generate a simple numeric grid
       console.warn('Grid generation failed, using fallback');
@@ -36,7 +42,7 @@ export function generateGrid(
       for (let r = 0; r < rows; r++) {
         const row: Cell[] = [];
         for (let c = 0; c < cols; c++) {
-          const value = randInt(2, 50);
+          const value = randInt(numberRange.min, numberRange.max, random);
           const isTarget = isPrime(value) && row.filter(cell => cell.isTarget).length < 5;
           row.push({ value, isTarget, hasMuncher: false, hasTroggle: false });
         }
@@ -46,27 +52,36 @@ export function generateGrid(
     }
   }
   
-  // Step 1: Generate all possible correct values for this rule
-  const correctValues = generateCorrectValues(rule, targetNumber);
+  // Step 1: Generate all possible correct values for this rule, keeping counting
+  // numbers inside the range unless that leaves too few to play
+  const rangedValues = correctValuesInRange(definition, target, numberRange, random);
+  const correctValues = rangedValues.length >= MIN_CORRECT_VALUES ? rangedValues : definition.correctValues(target, random);
   
   // If we don't have enough possible correct values, try a different target
-  if (correctValues.length < 3) {
-    const newTarget = getAlternativeTarget(rule);
-    return generateGrid(rows, cols, rule, newTarget, attempts + 1);
+  if (correctValues.length < MIN_CORRECT_VALUES) {
+    // Keep settings the fallback does not replace, such as the currency
+    const newTarget = { ...target, ...definition.fallbackTarget(random) };
+    return buildGrid(settings, rule, newTarget, attempts + 1);
   }
   
-  // Step 2: Determine how many correct answers to place (3-8, but not more than available)
-  const maxCorrect = Math.min(8, correctValues.length, totalCells - 2); // Leave room for muncher/troggle
-  const numCorrectAnswers = Math.max(3, randInt(3, maxCorrect));
+  // Step 2: Determine how many correct answers to place (not more than available)
+  const maxCorrect = Math.min(targetCount.max, correctValues.length, totalCells - 2); // Leave room for muncher/troggle
+  const numCorrectAnswers = randInt(Math.min(targetCount.min, maxCorrect), maxCorrect, random);
   
   // Step 3: Pick random positions for correct answers
   const correctPositions = new Set<number>();
   while (correctPositions.size < numCorrectAnswers) {
-    correctPositions.add(randInt(0, totalCells - 1));
+    correctPositions.add(randInt(0, totalCells - 1, random));
   }
   
-  // Step 4: Generate incorrect values to fill remaining positions
-  const incorrectValues = generateIncorrectValues(rule, targetNumber);
+  // Step 4: Generate incorrect values and pick what goes in every cell
+  const distractors = generateIncorrectValues(definition, target, settings);
+  const correctPicks = pickValues(correctValues, numCorrectAnswers, allowDuplicates, random);
+  // A rule that accepts every value ("even or odd") has nothing wrong to show, so
+  // the rest of the board is answers too
+  const incorrectPicks = distractors.length > 0
+    ? pickDistractors(distractors, totalCells - numCorrectAnswers, allowDuplicates, random)
+    : pickValues(correctValues, totalCells - numCorrectAnswers, allowDuplicates, random).map((value): Distractor => ({ value }));
   
   // Step 5: Build the grid
   const grid: Cell[][] = [];
@@ -75,20 +90,12 @@ export function generateGrid(
   for (let r = 0; r < rows; r++) {
     const row: Cell[] = [];
     for (let c = 0; c < cols; c++) {
-      let value: number | string;
-      let isTarget = false;
-      
       if (correctPositions.has(flatIndex)) {
-        // Place a correct answer
-        value = correctValues[randInt(0, correctValues.length - 1)];
-        isTarget = true;
+        row.push({ value: correctPicks.pop()!, isTarget: true, hasMuncher: false, hasTroggle: false });
       } else {
-        // Place an incorrect answer
-        value = incorrectValues[randInt(0, incorrectValues.length - 1)];
-        isTarget = false;
+        const { value, misconception } = incorrectPicks.pop()!;
+        row.push({ value, isTarget: false, hasMuncher: false, hasTroggle: false, misconception });
       }
-      
-      row.push({ value, isTarget, hasMuncher: false, hasTroggle: false });
       flatIndex++;
     }
     grid.push(row);
@@ -98,43 +105,7 @@ export function generateGrid(
   for (let r = 0; r < rows; r++) {
     for (let c = 0; c < cols; c++) {
       const cell = grid[r][c];
-      // Use the same logic as isCorrectValue to validate
-      let shouldBeTarget = false;
-      switch (rule) {
-        case 'multiples':
-          shouldBeTarget = typeof cell.value === 'number' && targetNumber > 0 && cell.value % targetNumber === 0;
-          break;
-        case 'factors':
-          shouldBeTarget = typeof cell.value === 'number' && targetNumber > 0 && cell.value > 0 && targetNumber % cell.value === 0;
-          break;
-        case 'primes':
-          shouldBeTarget = typeof cell.value === 'number' && isPrime(cell.value);
-          break;
-        case 'addition':
-          if (typeof cell.value === 'string' && cell.value.includes('+')) {
-            const [a, b] = cell.value.split('+').map(Number);
-            shouldBeTarget = a + b === targetNumber;
-          }
-          break;
-        case 'subtraction':
-          if (typeof cell.value === 'string' && cell.value.includes('-')) {
-            const [a, b] = cell.value.split('-').map(Number);
-            shouldBeTarget = a - b === targetNumber;
-          }
-          break;
-        case 'mixed':
-          if (typeof cell.value === 'string') {
-            if (cell.value.includes('+')) {
-              const [a, b] = cell.value.split('+').map(Number);
-              shouldBeTarget = a + b === targetNumber;
-            } else if (cell.value.includes('-')) {
-              const [a, b] = cell.value.split('-').map(Number);
-              shouldBeTarget = a - b === targetNumber;
-            }
-          }
-          break;
-      }
-      
+      const shouldBeTarget = definition.isCorrect(cell.value, target);
       if (cell.isTarget !== shouldBeTarget) {
         // Fix the marking
         cell.isTarget = shouldBeTarget;
@@ -145,232 +116,135 @@ export function generateGrid(
   return grid;
 }
 
-// Generate all possible correct values for a given rule and target
-function generateCorrectValues(rule: GameRule, targetNumber: number): (number | string)[] {
-  const values: (number | string)[] = [];
-  
-  switch (rule) {
-    case 'multiples':
-      // Generate multiples of targetNumber that fit in our range
-      if (targetNumber > 0) {
-        for (let i = 1; i <= 25; i++) {
-          const multiple = targetNumber * i;
-          if (multiple >= 2 && multiple <= 50) {
-            values.push(multiple);
-          }
-        }
-      }
-      break;
-      
-    case 'factors':
-      // Generate factors of targetNumber
-      if (targetNumber > 0) {
-        for (let i = 1; i <= targetNumber; i++) {
-          if (targetNumber % i === 0) {
-            values.push(i);
-          }
-        }
-      }
-      break;
-      
-    case 'primes':
-      // Generate prime numbers in our range
-      for (let i = 2; i <= 50; i++) {
-        if (isPrime(i)) {
-          values.push(i);
-        }
-      }
-      break;
-      
-    case 'addition':
-      // Generate addition problems that equal targetNumber
-      for (let a = 0; a <= targetNumber; a++) {
-        const b = targetNumber - a;
-        if (b >= 0 && b <= 20) {
-          // Add both orientations for variety
-          values.push(`${a}+${b}`);
-          if (a !== b) values.push(`${b}+${a}`);
-        }
-      }
-      break;
-      
-    case 'subtraction':
-      // Generate subtraction problems that equal targetNumber
-      for (let b = 0; b <= 20; b++) {
-        const a = b + targetNumber;
-        if (a >= b && a <= 30) {
-          values.push(`${a}-${b}`);
-        }
-      }
-      break;
-      
-    case 'mixed':
-      // Generate both addition and subtraction problems that equal targetNumber
-      // Addition problems
-      for (let a = 0; a <= targetNumber; a++) {
-        const b = targetNumber - a;
-        if (b >= 0 && b <= 20) {
-          values.push(`${a}+${b}`);
-          if (a !== b) values.push(`${b}+${a}`);
-        }
-      }
-      // Subtraction problems
-      for (let b = 0; b <= 20; b++) {
-        const a = b + targetNumber;
-        if (a >= b && a <= 30) {
-          values.push(`${a}-${b}`);
-        }
-      }
-      break;
+// Build the cells of a hand-made layout, marking targets with the rule. Walls
+// keep a placeholder value and are never targets.
+export function gridFromLayout(layout: BoardLayout, rule: RuleSpec, target: RuleTarget): Cell[][] {
+  const definition = getRule(rule);
+  return layout.cells.map(row => row.map((value): Cell => value === null
+    ? { value: 0, isTarget: false, hasMuncher: false, hasTroggle: false, wall: true }
+    : { value, isTarget: definition.isCorrect(value, target), hasMuncher: false, hasTroggle: false }
+  ));
+}
+
+// Whole numbers must sit inside the range. Other values (decimals, fractions,
+// clocks, expressions and so on) are not counting numbers and always fit.
+function isInRange(value: CellValue, range: { min: number; max: number; }): boolean {
+  return typeof value !== 'number' || !Number.isInteger(value) || (value >= range.min && value <= range.max);
+}
+
+// Arithmetic problems keep the numbers they are written with ("3+12") inside the
+// level's range. Boards the level gives no range leave problems alone.
+function isProblemInRange(value: CellValue, range: RuleTarget['numberRange']): boolean {
+  if (!range || typeof value !== 'string') return true;
+  const node = parseExpression(value);
+  if (!node || operatorsIn(node).size === 0) return true;
+  return numbersIn(node).every(number => number >= range.min && number <= range.max);
+}
+
+// The rule's correct values that a board with this number range can show
+export function correctValuesInRange(
+  definition: RuleDefinition,
+  target: RuleTarget,
+  range: { min: number; max: number; },
+  random: Random
+): CellValue[] {
+  return definition.correctValues(target, random)
+    .filter(value => isInRange(value, range) && isProblemInRange(value, target.numberRange));
+}
+
+// Pick count values from the pool. Without duplicates each value is used once,
+// and values only repeat when the pool runs out.
+function pickValues<T>(pool: T[], count: number, allowDuplicates: boolean, random: Random): T[] {
+  if (allowDuplicates) {
+    return Array.from({ length: count }, () => randChoice(pool, random));
   }
-  
-  return values;
+  const picks: T[] = [];
+  let remaining: T[] = [];
+  while (picks.length < count) {
+    if (remaining.length === 0) remaining = [...pool];
+    picks.push(remaining.splice(randInt(0, remaining.length - 1, random), 1)[0]);
+  }
+  return picks;
 }
 
-// Generate incorrect values that don't match the rule
-function generateIncorrectValues(rule: GameRule, targetNumber: number): (number | string)[] {
-  const values: (number | string)[] = [];
+// About half the wrong cells show a known mistake when the rule offers any; the
+// rest are the rule's ordinary random values. Either side makes up for the other
+// running short, and a value repeats only once both are used up.
+function pickDistractors(distractors: Distractor[], count: number, allowDuplicates: boolean, random: Random): Distractor[] {
+  const tagged = shuffle(distractors.filter(distractor => distractor.misconception), random);
+  const plain = shuffle(distractors.filter(distractor => !distractor.misconception), random);
   
-  // Helper function to check if a value would be considered correct
-  const isCorrectValue = (value: number | string): boolean => {
-    switch (rule) {
-      case 'multiples':
-        return typeof value === 'number' && targetNumber > 0 && value % targetNumber === 0;
-      case 'factors':
-        return typeof value === 'number' && targetNumber > 0 && value > 0 && targetNumber % value === 0;
-      case 'primes':
-        return typeof value === 'number' && isPrime(value);
-      case 'addition':
-        if (typeof value === 'string' && value.includes('+')) {
-          const [a, b] = value.split('+').map(Number);
-          return a + b === targetNumber;
-        }
-        return false;
-      case 'subtraction':
-        if (typeof value === 'string' && value.includes('-')) {
-          const [a, b] = value.split('-').map(Number);
-          return a - b === targetNumber;
-        }
-        return false;
-      case 'mixed':
-        if (typeof value === 'string') {
-          if (value.includes('+')) {
-            const [a, b] = value.split('+').map(Number);
-            return a + b === targetNumber;
-          } else if (value.includes('-')) {
-            const [a, b] = value.split('-').map(Number);
-            return a - b === targetNumber;
-          }
-        }
-        return false;
-      default:
-        return false;
-    }
-  };
+  const taggedCount = Math.min(tagged.length, Math.max(Math.ceil(count / 2), count - plain.length));
+  const plainCount = Math.min(plain.length, count - taggedCount);
+  const picks = [...tagged.slice(0, taggedCount), ...plain.slice(0, plainCount)];
+  const repeats = pickValues(distractors, count - picks.length, allowDuplicates, random);
+  return shuffle([...picks, ...repeats], random);
+}
+
+// Generate incorrect values that don't match the rule, starting with the ones
+// built from the rule's misconceptions
+function generateIncorrectValues(definition: RuleDefinition, target: RuleTarget, settings: GridSettings): Distractor[] {
+  const { random, numberRange } = settings;
+  const distractors: Distractor[] = [];
+  const isCorrectValue = (value: CellValue) => definition.isCorrect(value, target);
   
   // Generate enough incorrect values
   const targetCount = 100; // Generate plenty of options
-  let attempts = 0;
+  const minimumCount = 20;  // Below this, pad with plain numbers so the board can still be filled
+  const isDuplicate = (value: CellValue) => distractors.some(existing => cellValuesEqual(existing.value, value));
+  // Only add if it's not correct, not already in our list and inside the range
+  const isUsable = (value: CellValue) => !isCorrectValue(value) && !isDuplicate(value) &&
+    isInRange(value, numberRange) && isProblemInRange(value, target.numberRange);
   
-  while (values.length < targetCount && attempts < 1000) {
-    let value: number | string;
-    
-    switch (rule) {
-      case 'multiples':
-      case 'factors':
-      case 'primes':
-        value = randInt(2, 50);
-        break;
-        
-      case 'addition':
-        const a = randInt(0, 20);
-        const b = randInt(0, 20);
-        value = `${a}+${b}`;
-        break;
-        
-      case 'subtraction':
-        const x = randInt(0, 30);
-        const y = randInt(0, Math.min(x, 15));
-        value = `${x}-${y}`;
-        break;
-        
-      case 'mixed':
-        // Generate both addition and subtraction problems for mixed mode
-        if (randInt(0, 1) === 0) {
-          // Addition problem
-          const a = randInt(0, 20);
-          const b = randInt(0, 20);
-          value = `${a}+${b}`;
-        } else {
-          // Subtraction problem
-          const x = randInt(0, 30);
-          const y = randInt(0, Math.min(x, 15));
-          value = `${x}-${y}`;
-        }
-        break;
-        
-      default:
-        value = randInt(2, 50);
+  for (const distractor of definition.misconceptions?.(target, random) ?? []) {
+    if (isUsable(distractor.value)) {
+      distractors.push(distractor);
     }
-    
-    // Only add if it's not correct and not already in our list
-    if (!isCorrectValue(value) && !values.includes(value)) {
-      values.push(value);
+  }
+  
+  let attempts = 0;
+  while (distractors.length < targetCount && attempts < 1000) {
+    const value = definition.randomValue(target, random);
+    if (isUsable(value)) {
+      distractors.push({ value });
     }
     
     attempts++;
   }
   
-  // If we still don't have enough incorrect values, fall back to simple numbers
+  // If the rule could not produce enough distinct incorrect values, fall back to simple numbers
   let fallbackAttempts = 0;
-  while (values.length < targetCount && fallbackAttempts < 100) {
-    const num = randInt(2, 50);
-    if (!isCorrectValue(num) && !values.includes(num)) {
-      values.push(num);
+  while (distractors.length < minimumCount && fallbackAttempts < 100) {
+    const num = randInt(numberRange.min, numberRange.max, random);
+    if (!isCorrectValue(num) && !isDuplicate(num)) {
+      distractors.push({ value: num });
     }
     fallbackAttempts++;
   }
   
-  // If we still don't have enough, just add some guaranteed incorrect values
-  if (values.length < 20) {
-    for (let i = 51; i <= 100 && values.length < 50; i++) {
-      if (!values.includes(i)) {
-        values.push(i);
-      }
+  // If we still don't have enough, take every number in the range in turn
+  for (let i = numberRange.min; distractors.length < minimumCount && i <= numberRange.max; i++) {
+    if (!isCorrectValue(i) && !isDuplicate(i)) {
+      distractors.push({ value: i });
     }
   }
   
-  return values;
-}
-
-// Helper to get an alternative target if the current one doesn't work
-function getAlternativeTarget(rule: GameRule): number {
-  switch (rule) {
-    case 'multiples':
-      return randInt(3, 8); // Use smaller numbers for multiples
-    case 'factors':
-      // Use numbers with many factors to make the game more interesting
-      const goodFactorNumbers = [12, 18, 20, 24, 30, 36];
-      return goodFactorNumbers[randInt(0, goodFactorNumbers.length - 1)];
-    case 'primes':
-      return 0; // Primes don't use a target number
-    case 'addition':
-      return randInt(8, 15); // Sweet spot for addition problems
-    case 'subtraction':
-      return randInt(3, 10); // Good range for subtraction
-    case 'mixed':
-      return randInt(5, 12); // Good range for mixed addition/subtraction problems
-    default:
-      return randInt(2, 12);
+  // Only step outside the range when nothing inside it is incorrect
+  for (let i = numberRange.max + 1; distractors.length === 0 && i <= numberRange.max + 50; i++) {
+    if (!isCorrectValue(i)) {
+      distractors.push({ value: i });
+    }
   }
+  
+  return distractors;
 }
 
 // Get a random empty position on the grid
-export function getRandomEmptyPosition(grid: Cell[][]): Position {
+export function getRandomEmptyPosition(grid: Cell[][], random: Random): Position {
   const empty: Position[] = [];
   for (let r = 0; r < grid.length; r++) {
     for (let c = 0; c < grid[0].length; c++) {
-      if (!grid[r][c].hasMuncher && !grid[r][c].hasTroggle) {
+      if (!grid[r][c].hasMuncher && !grid[r][c].hasTroggle && !grid[r][c].wall) {
         empty.push({ row: r, col: c });
       }
     }
@@ -381,5 +255,5 @@ export function getRandomEmptyPosition(grid: Cell[][]): Position {
     return { row: 0, col: 0 };
   }
   
-  return empty[randInt(0, empty.length - 1)];
+  return randChoice(empty, random);
 }
@@ -1,16 +1,92 @@
 import type { 
+  BoardLayout,
+  Cell,
   LevelGameState, 
+  LevelParameters,
   GameSession, 
   LevelObjective,
+  Misconception,
+  Position,
+  Random,
+  RuleTarget,
   SaveData,
   LevelProgress 
 } from './types';
-import { getLevelById, generateLevelParameters, calculateLevelStars, isLevelUnlocked } from './levels';
-import { generateGrid, getRandomEmptyPosition } from './gameUtils';
+import { getLevelById, generateLevelParameters, calculateLevelStars, isLevelUnlocked, getLevelRuleTarget } from './levels';
+import { generateGrid, getRandomEmptyPosition, gridFromLayout } from './gameUtils';
+import { createRandom, randomSeed } from './mathUtils';
+import type { BoardAnalysis } from './boardAnalysis';
+import { analyzeBoard, isFairBoard } from './boardAnalysis';
 
 // === LEVEL-BASED GAME STATE MANAGEMENT ===
 
-export function initializeLevelGameState(levelId: number, existingSave?: SaveData): LevelGameState | null {
+// Unfair boards are thrown away and generated again, up to this many times
+const MAX_BOARD_ATTEMPTS = 20;
+
+interface LevelBoard {
+  grid: Cell[][];
+  muncher: Position;
+  troggles: Position[];
+  analysis: BoardAnalysis;
+}
+
+function generateLevelBoard(params: LevelParameters, target: RuleTarget, random: Random): LevelBoard {
+  // Create grid based on level parameters
+  const grid = generateGrid({
+    rows: params.gridSize.rows,
+    cols: params.gridSize.cols,
+    rule: params.rule,
+    target,
+    random,
+    numberRange: params.numberRange,
+    targetCount: params.targetCount,
+    allowDuplicates: params.allowDuplicates
+  }).map(row => row.map(cell => ({ ...cell, revealed: false })));
+
+  // Place Muncher at a random position
+  const muncher = getRandomEmptyPosition(grid, random);
+  grid[muncher.row][muncher.col].hasMuncher = true;
+
+  // Place Troggles based on level parameters
+  const troggles: Position[] = [];
+  for (let i = 0; i < params.enemyCount; i++) {
+    const trogglePosition = getRandomEmptyPosition(grid, random);
+    grid[trogglePosition.row][trogglePosition.col].hasTroggle = true;
+    troggles.push(trogglePosition);
+  }
+
+  return { grid, muncher, troggles, analysis: analyzeBoard(grid, muncher, troggles) };
+}
+
+// A hand-made board: the layout's cells, start and spawns exactly as written
+function layoutLevelBoard(layout: BoardLayout, params: LevelParameters, target: RuleTarget): LevelBoard {
+  const grid = gridFromLayout(layout, params.rule, target).map(row => row.map(cell => ({ ...cell, revealed: false })));
+  const muncher = { ...layout.muncher };
+  const troggles = layout.troggles.map(troggle => ({ ...troggle }));
+  grid[muncher.row][muncher.col].hasMuncher = true;
+  troggles.forEach(troggle => { grid[troggle.row][troggle.col].hasTroggle = true; });
+  return { grid, muncher, troggles, analysis: analyzeBoard(grid, muncher, troggles) };
+}
+
+// Keep generating until the analyzer finds a fair board. If none turns up, the
+// last one is played rather than leaving the player without a level.
+function generateFairLevelBoard(params: LevelParameters, target: RuleTarget, random: Random): LevelBoard {
+  let board = generateLevelBoard(params, target, random);
+  for (let attempt = 1; attempt < MAX_BOARD_ATTEMPTS && !isFairBoard(board.analysis); attempt++) {
+    board = generateLevelBoard(params, target, random);
+  }
+  if (!isFairBoard(board.analysis)) {
+    console.warn(`No fair board found: ${board.analysis.problems.join('; ')}`);
+  }
+  return board;
+}
+
+// Pass a seed to replay the same board and Troggle moves
+export function initializeLevelGameState(
+  levelId: number,
+  existingSave?: SaveData,
+  seed: number = randomSeed()
+): LevelGameState | null {
   const level = getLevelById(levelId);
   if (!level) {
     console.error(`Level ${levelId} not found`);
@@ -26,26 +102,11 @@ export function initializeLevelGameState(levelId: number, existingSave?: SaveDat
 
   // Generate level parameters with difficulty modifiers applied
   const params = generateLevelParameters(level);
-  
-  // Create grid based on level parameters
-  const grid = generateGrid(
-    params.gridSize.rows,
-    params.gridSize.cols,
-    params.rule,
-    params.targetNumber || 0
-  ).map(row => row.map(cell => ({ ...cell, revealed: false })));
-
-  // Place Muncher at a random position
-  const muncherPosition = getRandomEmptyPosition(grid);
-  grid[muncherPosition.row][muncherPosition.col].hasMuncher = true;
-
-  // Place Troggles based on level parameters
-  const troggles = [];
-  for (let i = 0; i < params.enemyCount; i++) {
-    const trogglePosition = getRandomEmptyPosition(grid);
-    grid[trogglePosition.row][trogglePosition.col].hasTroggle = true;
-    troggles.push(trogglePosition);
-  }
+  const target = getLevelRuleTarget(params);
+  const random = createRandom(seed);
+  const { grid, muncher, troggles, analysis } = level.layout
+    ? layoutLevelBoard(level.layout, params, target)
+    : generateFairLevelBoard(params, target, random);
 
   // Initialize game session
   const session: GameSession = {
@@ -56,6 +117,7 @@ export function initializeLevelGameState(levelId: number, existingSave?: SaveDat
     starsEarned: 0,
     objectivesCompleted: [],
     mistakes: 0,
+    misconceptions: {},
     timeRemaining: params.timeLimit
   };
 
@@ -63,10 +125,17 @@ export function initializeLevelGameState(levelId: number, existingSave?: SaveDat
   const gameState: LevelGameState = {
     // Base game state
     grid,
-    muncher: muncherPosition,
+    muncher,
     troggles,
     rule: params.rule,
-    targetNumber: params.targetNumber || 0,
+    targetNumber: target.targetNumber,
+    secondaryTargetNumber: target.secondaryTargetNumber,
+    currency: target.currency,
+    shapeProperty: target.shapeProperty,
+    locale: target.locale,
+    hidePrefixes: target.hidePrefixes,
+    seed,
+    randomState: random.state,
     score: 0,
     gameOver: false,
     incorrectGuesses: 0,
@@ -79,7 +148,9 @@ export function initializeLevelGameState(levelId: number, existingSave?: SaveDat
     timeLeft: params.timeLimit,
     puzzlesSolved: 0,
     accuracy: 100,
-    currentStreak: 0
+    currentStreak: 0,
+    parMoves: analysis.tourLength,
+    movesMade: 0
   };
 
   return gameState;
@@ -93,7 +164,7 @@ export function updateLevelProgress(
   
   switch (action) {
     case 'move':
-      // No specific level progress updates for movement
+      newState.movesMade += 1;
       break;
       
     case 'eat_correct':
@@ -158,6 +229,10 @@ function checkObjectiveCompletion(objective: LevelObjective, state: LevelGameSta
     case 'noMistakes':
       return state.session.mistakes === 0;
       
+    case 'par':
+      return !state.grid.flat().some(cell => cell.isTarget) &&
+        state.movesMade <= state.parMoves + (objective.target || 0);
+      
     default:
       return false;
   }
@@ -230,7 +305,8 @@ export function saveLevelProgress(levelId: number, session: GameSession, saveDat
     objectivesCompleted: [...new Set([
       ...(newSaveData.levelProgress[levelId]?.objectivesCompleted || []),
       ...session.objectivesCompleted
-    ])]
+    ])],
+    misconceptions: addMisconceptions(newSaveData.levelProgress[levelId]?.misconceptions, session.misconceptions)
   };
   
   newSaveData.levelProgress[levelId] = progress;
@@ -263,6 +339,17 @@ export function saveLevelProgress(levelId: number, session: GameSession, saveDat
   return newSaveData;
 }
 
+function addMisconceptions(
+  saved: Partial<Record<Misconception, number>> = {},
+  session: Partial<Record<Misconception, number>> = {}
+): Partial<Record<Misconception, number>> {
+  const total = { ...saved };
+  for (const [misconception, count] of Object.entries(session) as [Misconception, number][]) {
+    total[misconception] = (total[misconception] ?? 0) + count;
+  }
+  return total;
+}
+
 function getSessionDuration(session: GameSession): number {
   if (!session.endTime) return 0;
   return session.endTime.getTime() - session.startTime.getTime();
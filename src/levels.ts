@@ -1,8 +1,14 @@
 import type { 
   Level, 
   LevelCategory, 
-  LevelParameters
+  LevelParameters,
+  Position,
+  RuleTarget
 } from './types';
+import { MIN_CORRECT_VALUES, getRule, validateRule } from './rules';
+import { correctValuesInRange, gridFromLayout } from './gameUtils';
+import { DEFAULT_NUMBER_RANGE, createRandom } from './mathUtils';
+import { analyzeBoard } from './boardAnalysis';
 
 // === LEVEL CONFIGURATION ===
 
@@ -21,7 +27,7 @@ export const LEVELS: Level[] = [
   {
     id: 1,
     name: "First Steps",
-    description: "Learn the basics! Eat all multiples of 2.",
+    description: "Learn the basics! Count the dots and eat all multiples of 2.",
     category: 'tutorial',
     requirements: { minScore: 0, previousLevel: 0 },
     parameters: {
@@ -29,6 +35,7 @@ export const LEVELS: Level[] = [
       timeLimit: 90,
       rule: 'multiples',
       targetNumber: 2,
+      numberDisplay: 'dots',
       enemyCount: 1,
       enemyTypes: ['standard'],
       difficultyModifiers: ['slowerEnemies'],
@@ -56,13 +63,24 @@ export const LEVELS: Level[] = [
     rewards: [
       { type: 'points', value: 50, description: 'Level completion bonus' },
       { type: 'stars', value: 1, description: 'First star earned!' }
-    ]
+    ],
+    // Evens run down the first column from the Muncher's start, with 8 and 10 nearby
+    layout: {
+      cells: [
+        [ 2,  3,  5,  7,  9],
+        [ 4,  9, 11, 13, 15],
+        [ 6, 13, 17,  8, 19],
+        [ 3, 15, 10, 17, 11]
+      ],
+      muncher: { row: 0, col: 0 },
+      troggles: [{ row: 0, col: 4 }]
+    }
   },
   
   {
     id: 2,
     name: "Three Times Fun",
-    description: "Master multiples of 3. They're everywhere!",
+    description: "Master multiples of 3, shown on ten-frames. They're everywhere!",
     category: 'tutorial',
     requirements: { minScore: 30, previousLevel: 1 },
     parameters: {
@@ -70,10 +88,11 @@ export const LEVELS: Level[] = [
       timeLimit: 90,
       rule: 'multiples',
       targetNumber: 3,
+      numberDisplay: 'tenFrame',
       enemyCount: 1,
       enemyTypes: ['standard'],
       difficultyModifiers: ['slowerEnemies'],
-      numberRange: { min: 3, max: 24 },
+      numberRange: { min: 3, max: 20 },
       targetCount: { min: 4, max: 6 }
     },
     objectives: [
@@ -97,13 +116,24 @@ export const LEVELS: Level[] = [
     ],
     rewards: [
       { type: 'points', value: 60, description: 'Level completion bonus' }
-    ]
+    ],
+    // Multiples of 3 step down a staircase, away from the Troggle
+    layout: {
+      cells: [
+        [ 3,  4,  7,  8, 10],
+        [ 5,  6, 11, 14, 16],
+        [ 8, 13,  9, 12, 20],
+        [10, 17, 19, 14, 15]
+      ],
+      muncher: { row: 0, col: 0 },
+      troggles: [{ row: 3, col: 0 }]
+    }
   },
 
   {
     id: 3,
     name: "High Five",
-    description: "Count by fives! Find all multiples of 5.",
+    description: "Count by fives! Find all multiples of 5, and find a way round the wall.",
     category: 'tutorial',
     requirements: { minScore: 50, previousLevel: 2 },
     parameters: {
@@ -139,7 +169,18 @@ export const LEVELS: Level[] = [
     rewards: [
       { type: 'points', value: 70, description: 'Level completion bonus' },
       { type: 'unlock', value: 'basic_levels', description: 'Basic levels unlocked!' }
-    ]
+    ],
+    // First wall: the Muncher has to go round it to reach 30 and 35
+    layout: {
+      cells: [
+        [ 5, 12, null, 21, 30],
+        [14, 10, null, 35, 18],
+        [23, 15,   26, 29, 33],
+        [ 8, 27,   44, 20, 42]
+      ],
+      muncher: { row: 0, col: 0 },
+      troggles: [{ row: 3, col: 4 }]
+    }
   },
 
   // BASIC LEVELS (4-8)
@@ -348,7 +389,7 @@ export const LEVELS: Level[] = [
     ]
   },
 
-  // INTERMEDIATE LEVELS (9-10 for now, more will be added)
+  // INTERMEDIATE LEVELS (9-15)
   {
     id: 9,
     name: "Addition Action",
@@ -379,8 +420,8 @@ export const LEVELS: Level[] = [
         id: 'efficiency',
         description: 'Complete with minimal moves',
         type: 'bonus',
-        condition: 'score',
-        target: 400,
+        condition: 'par',
+        target: 2,
         points: 65,
         required: false
       }
@@ -429,97 +470,1316 @@ export const LEVELS: Level[] = [
       { type: 'points', value: 140, description: 'Level completion bonus' },
       { type: 'badge', value: 'intermediate_challenger', description: 'Intermediate Challenger!' }
     ]
-  }
-];
-
-// === LEVEL UTILITY FUNCTIONS ===
+  },
 
-export function getLevelById(id: number): Level | undefined {
-  return LEVELS.find(level => level.id === id);
-}
+  {
+    id: 11,
+    name: "Times Table Trek",
+    description: "Which products make 12? Multiply your way through!",
+    category: 'intermediate',
+    requirements: { minScore: 260, previousLevel: 10 },
+    parameters: {
+      gridSize: { rows: 5, cols: 6 },
+      timeLimit: 60,
+      rule: 'multiplication',
+      targetNumber: 12,
+      enemyCount: 2,
+      enemyTypes: ['standard', 'smart'],
+      difficultyModifiers: [],
+      numberRange: { min: 1, max: 12 },
+      targetCount: { min: 4, max: 6 }
+    },
+    objectives: [
+      {
+        id: 'complete',
+        description: 'Find all multiplication problems that equal 12',
+        type: 'primary',
+        condition: 'complete',
+        points: 150,
+        required: true
+      },
+      {
+        id: 'accuracy',
+        description: 'Maintain 80%+ accuracy',
+        type: 'bonus',
+        condition: 'accuracy',
+        target: 80,
+        points: 75,
+        required: false
+      }
+    ],
+    rewards: [
+      { type: 'points', value: 150, description: 'Level completion bonus' }
+    ]
+  },
 
-export function getLevelsByCategory(category: LevelCategory): Level[] {
-  return LEVELS.filter(level => level.category === category);
-}
+  {
+    id: 12,
+    name: "Division Dash",
+    description: "Share it out! Find quotients that equal 4.",
+    category: 'intermediate',
+    requirements: { minScore: 290, previousLevel: 11 },
+    parameters: {
+      gridSize: { rows: 5, cols: 6 },
+      timeLimit: 60,
+      rule: 'division',
+      targetNumber: 4,
+      enemyCount: 2,
+      enemyTypes: ['standard', 'speed'],
+      difficultyModifiers: [],
+      numberRange: { min: 2, max: 40 },
+      targetCount: { min: 5, max: 7 }
+    },
+    objectives: [
+      {
+        id: 'complete',
+        description: 'Find all division problems that equal 4',
+        type: 'primary',
+        condition: 'complete',
+        points: 160,
+        required: true
+      },
+      {
+        id: 'time_bonus',
+        description: 'Complete with 20+ seconds remaining',
+        type: 'bonus',
+        condition: 'time',
+        target: 20,
+        points: 80,
+        required: false
+      }
+    ],
+    rewards: [
+      { type: 'points', value: 160, description: 'Level completion bonus' }
+    ]
+  },
 
-export function getNextLevel(currentLevelId: number): Level | undefined {
-  return LEVELS.find(level => level.id === currentLevelId + 1);
-}
+  {
+    id: 13,
+    name: "Operation Overload",
+    description: "Add, subtract, multiply and divide - all to make 8!",
+    category: 'intermediate',
+    requirements: { minScore: 320, previousLevel: 12 },
+    parameters: {
+      gridSize: { rows: 6, cols: 7 },
+      timeLimit: 60,
+      rule: 'mixedAll',
+      targetNumber: 8,
+      enemyCount: 3,
+      enemyTypes: ['standard', 'smart', 'speed'],
+      difficultyModifiers: ['lessTime'],
+      numberRange: { min: 0, max: 80 },
+      targetCount: { min: 6, max: 10 }
+    },
+    objectives: [
+      {
+        id: 'complete',
+        description: 'Find all problems that equal 8',
+        type: 'primary',
+        condition: 'complete',
+        points: 170,
+        required: true
+      },
+      {
+        id: 'perfect_accuracy',
+        description: 'No incorrect guesses',
+        type: 'bonus',
+        condition: 'noMistakes',
+        points: 85,
+        required: false
+      }
+    ],
+    rewards: [
+      { type: 'points', value: 170, description: 'Level completion bonus' },
+      { type: 'badge', value: 'operation_master', description: 'Operation Master badge earned!' }
+    ]
+  },
 
-export function isLevelUnlocked(levelId: number, completedLevels: number[], playerStats?: any): boolean {
-  const level = getLevelById(levelId);
-  if (!level) return false;
-  
-  // Level 1 is always unlocked
-  if (levelId === 1) return true;
-  
-  // Check if previous level is completed
-  const previousLevelCompleted = completedLevels.includes(level.requirements.previousLevel);
-  if (!previousLevelCompleted) return false;
-  
-  // Check minimum score requirement (if we have player stats)
-  if (playerStats && playerStats.totalScore < level.requirements.minScore) {
-    return false;
-  }
-  
-  return true;
-}
+  {
+    id: 14,
+    name: "Order Up!",
+    description: "Multiply before you add! Find expressions equal to 12.",
+    category: 'intermediate',
+    requirements: { minScore: 350, previousLevel: 13 },
+    parameters: {
+      gridSize: { rows: 5, cols: 6 },
+      timeLimit: 75,
+      rule: 'expressions',
+      targetNumber: 12,
+      enemyCount: 2,
+      enemyTypes: ['standard', 'smart'],
+      difficultyModifiers: ['extraTime'],
+      numberRange: { min: 1, max: 10 },
+      targetCount: { min: 4, max: 7 }
+    },
+    objectives: [
+      {
+        id: 'complete',
+        description: 'Find all expressions equal to 12',
+        type: 'primary',
+        condition: 'complete',
+        points: 180,
+        required: true
+      },
+      {
+        id: 'accuracy',
+        description: 'Maintain 80%+ accuracy',
+        type: 'bonus',
+        condition: 'accuracy',
+        target: 80,
+        points: 90,
+        required: false
+      }
+    ],
+    rewards: [
+      { type: 'points', value: 180, description: 'Level completion bonus' }
+    ]
+  },
 
-export function calculateLevelStars(score: number, objectives: string[], level: Level): number {
-  let stars = 0;
-  
-  // 1 star for completion
-  stars = 1;
-  
-  // 2nd star for good performance (complete all primary objectives + some bonus)
-  const bonusObjectives = level.objectives.filter(obj => obj.type === 'bonus');
-  const completedBonus = objectives.filter(id => 
-    bonusObjectives.some(obj => obj.id === id)
-  ).length;
-  
-  if (completedBonus >= 1) {
-    stars = 2;
-  }
-  
-  // 3rd star for excellent performance (all objectives + high score)
-  if (completedBonus === bonusObjectives.length && score >= getMinimumThreeStarScore(level)) {
-    stars = 3;
-  }
-  
-  return stars;
-}
+  {
+    id: 15,
+    name: "Fraction Frenzy",
+    description: "Half a pizza is still half a pizza! Find fractions equal to 1/2.",
+    category: 'intermediate',
+    requirements: { minScore: 380, previousLevel: 14 },
+    parameters: {
+      gridSize: { rows: 5, cols: 6 },
+      timeLimit: 60,
+      rule: 'fractions',
+      targetNumber: 1 / 2,
+      enemyCount: 2,
+      enemyTypes: ['standard', 'speed'],
+      difficultyModifiers: [],
+      numberRange: { min: 1, max: 20 },
+      targetCount: { min: 5, max: 8 }
+    },
+    objectives: [
+      {
+        id: 'complete',
+        description: 'Find all fractions equal to 1/2',
+        type: 'primary',
+        condition: 'complete',
+        points: 190,
+        required: true
+      },
+      {
+        id: 'perfect_accuracy',
+        description: 'No incorrect guesses',
+        type: 'bonus',
+        condition: 'noMistakes',
+        points: 95,
+        required: false
+      }
+    ],
+    rewards: [
+      { type: 'points', value: 190, description: 'Level completion bonus' },
+      { type: 'badge', value: 'fraction_finder', description: 'Fraction Finder badge earned!' }
+    ]
+  },
 
-export function getMinimumThreeStarScore(level: Level): number {
-  const baseScore = level.objectives
-    .filter(obj => obj.type === 'primary')
-    .reduce((sum, obj) => sum + obj.points, 0);
-  
-  // Three stars require roughly 150% of base objective points
-  return Math.floor(baseScore * 1.5);
-}
+  // ADVANCED LEVELS (16-25)
+  {
+    id: 16,
+    name: "Boundary Patrol",
+    description: "Stay inside the lines! Eat numbers between 20 and 30.",
+    category: 'advanced',
+    requirements: { minScore: 410, previousLevel: 15 },
+    parameters: {
+      gridSize: { rows: 6, cols: 7 },
+      timeLimit: 45,
+      rule: 'between',
+      targetNumber: 20,
+      secondaryTargetNumber: 30,
+      enemyCount: 3,
+      enemyTypes: ['standard', 'smart', 'blocker'],
+      difficultyModifiers: [],
+      numberRange: { min: 5, max: 45 },
+      targetCount: { min: 6, max: 9 }
+    },
+    objectives: [
+      {
+        id: 'complete',
+        description: 'Eat all numbers between 20 and 30',
+        type: 'primary',
+        condition: 'complete',
+        points: 200,
+        required: true
+      },
+      {
+        id: 'accuracy',
+        description: 'Maintain 90%+ accuracy',
+        type: 'bonus',
+        condition: 'accuracy',
+        target: 90,
+        points: 100,
+        required: false
+      }
+    ],
+    rewards: [
+      { type: 'points', value: 200, description: 'Level completion bonus' }
+    ]
+  },
 
-export function generateLevelParameters(level: Level): LevelParameters {
-  // Apply difficulty modifiers to base parameters
-  let params = { ...level.parameters };
-  
-  level.parameters.difficultyModifiers.forEach(modifier => {
-    switch (modifier) {
-      case 'extraTime':
-        params.timeLimit += 15;
-        break;
-      case 'lessTime':
-        params.timeLimit -= 10;
-        break;
-      case 'moreTargets':
-        if (params.targetCount) {
-          params.targetCount.min += 1;
-          params.targetCount.max += 2;
-        }
+  {
+    id: 17,
+    name: "Square Dance",
+    description: "1, 4, 9, 16... Find the perfect squares, not their neighbours!",
+    category: 'advanced',
+    requirements: { minScore: 440, previousLevel: 16 },
+    parameters: {
+      gridSize: { rows: 6, cols: 7 },
+      timeLimit: 45,
+      rule: 'perfectSquares',
+      enemyCount: 3,
+      enemyTypes: ['standard', 'speed', 'smart'],
+      difficultyModifiers: [],
+      numberRange: { min: 1, max: 100 },
+      targetCount: { min: 6, max: 9 }
+    },
+    objectives: [
+      {
+        id: 'complete',
+        description: 'Eat all perfect squares',
+        type: 'primary',
+        condition: 'complete',
+        points: 210,
+        required: true
+      },
+      {
+        id: 'perfect_accuracy',
+        description: 'No incorrect guesses',
+        type: 'bonus',
+        condition: 'noMistakes',
+        points: 105,
+        required: false
+      }
+    ],
+    rewards: [
+      { type: 'points', value: 210, description: 'Level completion bonus' }
+    ]
+  },
+
+  {
+    id: 18,
+    name: "Fibonacci Forest",
+    description: "Each number is the sum of the two before it. Spot the Fibonacci numbers!",
+    category: 'advanced',
+    requirements: { minScore: 470, previousLevel: 17 },
+    parameters: {
+      gridSize: { rows: 6, cols: 7 },
+      timeLimit: 45,
+      rule: 'fibonacci',
+      enemyCount: 3,
+      enemyTypes: ['standard', 'smart', 'blocker'],
+      difficultyModifiers: ['moreTargets'],
+      numberRange: { min: 1, max: 89 },
+      targetCount: { min: 5, max: 8 }
+    },
+    objectives: [
+      {
+        id: 'complete',
+        description: 'Eat all Fibonacci numbers',
+        type: 'primary',
+        condition: 'complete',
+        points: 220,
+        required: true
+      },
+      {
+        id: 'time_bonus',
+        description: 'Complete with 15+ seconds remaining',
+        type: 'bonus',
+        condition: 'time',
+        target: 15,
+        points: 110,
+        required: false
+      }
+    ],
+    rewards: [
+      { type: 'points', value: 220, description: 'Level completion bonus' },
+      { type: 'badge', value: 'pattern_spotter', description: 'Pattern Spotter badge earned!' }
+    ]
+  },
+
+  {
+    id: 19,
+    name: "Double Trouble",
+    description: "Two rules at once! A number must pass both tests to be tasty.",
+    category: 'advanced',
+    requirements: { minScore: 500, previousLevel: 18 },
+    parameters: {
+      gridSize: { rows: 6, cols: 7 },
+      timeLimit: 50,
+      rule: {
+        and: [
+          { rule: 'multiples', targetNumber: 3 },
+          { rule: 'even' }
+        ]
+      },
+      enemyCount: 3,
+      enemyTypes: ['standard', 'smart', 'blocker'],
+      difficultyModifiers: [],
+      numberRange: { min: 1, max: 50 },
+      targetCount: { min: 4, max: 8 }
+    },
+    objectives: [
+      {
+        id: 'complete',
+        description: 'Eat all even multiples of 3',
+        type: 'primary',
+        condition: 'complete',
+        points: 230,
+        required: true
+      },
+      {
+        id: 'accuracy_bonus',
+        description: 'Finish with 90% accuracy',
+        type: 'bonus',
+        condition: 'accuracy',
+        target: 90,
+        points: 115,
+        required: false
+      }
+    ],
+    rewards: [
+      { type: 'points', value: 230, description: 'Level completion bonus' }
+    ]
+  },
+
+  {
+    id: 20,
+    name: "Odd One Out",
+    description: "Factors of 48 are on the menu, but factors of 12 are off limits!",
+    category: 'advanced',
+    requirements: { minScore: 530, previousLevel: 19 },
+    parameters: {
+      gridSize: { rows: 6, cols: 7 },
+      timeLimit: 50,
+      rule: {
+        and: [
+          { rule: 'factors', targetNumber: 48 },
+          { not: { rule: 'factors', targetNumber: 12 } }
+        ]
+      },
+      enemyCount: 3,
+      enemyTypes: ['standard', 'smart', 'hunter'],
+      difficultyModifiers: [],
+      numberRange: { min: 1, max: 50 },
+      targetCount: { min: 3, max: 4 }
+    },
+    objectives: [
+      {
+        id: 'complete',
+        description: 'Eat the factors of 48 that are not factors of 12',
+        type: 'primary',
+        condition: 'complete',
+        points: 240,
+        required: true
+      },
+      {
+        id: 'no_mistakes',
+        description: 'Complete without any mistakes',
+        type: 'bonus',
+        condition: 'noMistakes',
+        points: 120,
+        required: false
+      }
+    ],
+    rewards: [
+      { type: 'points', value: 240, description: 'Level completion bonus' },
+      { type: 'badge', value: 'logician', description: 'Logician badge earned!' }
+    ]
+  },
+
+  {
+    id: 21,
+    name: "Factor Friends",
+    description: "Find the numbers that divide evenly into both 24 and 36.",
+    category: 'advanced',
+    requirements: { minScore: 560, previousLevel: 20 },
+    parameters: {
+      gridSize: { rows: 6, cols: 7 },
+      timeLimit: 50,
+      rule: 'commonFactors',
+      targetNumber: 24,
+      secondaryTargetNumber: 36,
+      enemyCount: 3,
+      enemyTypes: ['standard', 'smart', 'blocker'],
+      difficultyModifiers: [],
+      numberRange: { min: 1, max: 36 },
+      targetCount: { min: 4, max: 6 }
+    },
+    objectives: [
+      {
+        id: 'complete',
+        description: 'Eat all common factors of 24 and 36',
+        type: 'primary',
+        condition: 'complete',
+        points: 250,
+        required: true
+      },
+      {
+        id: 'accuracy_bonus',
+        description: 'Finish with 90% accuracy',
+        type: 'bonus',
+        condition: 'accuracy',
+        target: 90,
+        points: 125,
+        required: false
+      }
+    ],
+    rewards: [
+      { type: 'points', value: 250, description: 'Level completion bonus' }
+    ]
+  },
+
+  {
+    id: 22,
+    name: "Meeting Point",
+    description: "Counting by 4s and by 6s, where do the two paths meet?",
+    category: 'advanced',
+    requirements: { minScore: 590, previousLevel: 21 },
+    parameters: {
+      gridSize: { rows: 6, cols: 7 },
+      timeLimit: 50,
+      rule: 'commonMultiples',
+      targetNumber: 4,
+      secondaryTargetNumber: 6,
+      enemyCount: 3,
+      enemyTypes: ['standard', 'smart', 'hunter'],
+      difficultyModifiers: [],
+      numberRange: { min: 2, max: 100 },
+      targetCount: { min: 4, max: 8 }
+    },
+    objectives: [
+      {
+        id: 'complete',
+        description: 'Eat all common multiples of 4 and 6',
+        type: 'primary',
+        condition: 'complete',
+        points: 260,
+        required: true
+      },
+      {
+        id: 'time_bonus',
+        description: 'Complete with 15+ seconds remaining',
+        type: 'bonus',
+        condition: 'time',
+        target: 15,
+        points: 130,
+        required: false
+      }
+    ],
+    rewards: [
+      { type: 'points', value: 260, description: 'Level completion bonus' },
+      { type: 'badge', value: 'common_ground', description: 'Common Ground badge earned!' }
+    ]
+  },
+
+  {
+    id: 23,
+    name: "Round About",
+    description: "Which numbers round to 300? Think about the hundreds!",
+    category: 'advanced',
+    requirements: { minScore: 620, previousLevel: 22 },
+    parameters: {
+      gridSize: { rows: 6, cols: 7 },
+      timeLimit: 50,
+      rule: 'rounding',
+      targetNumber: 300,
+      secondaryTargetNumber: 100,
+      enemyCount: 3,
+      enemyTypes: ['standard', 'smart', 'blocker'],
+      difficultyModifiers: [],
+      numberRange: { min: 150, max: 450 },
+      targetCount: { min: 5, max: 8 }
+    },
+    objectives: [
+      {
+        id: 'complete',
+        description: 'Eat all numbers that round to 300',
+        type: 'primary',
+        condition: 'complete',
+        points: 270,
+        required: true
+      },
+      {
+        id: 'accuracy_bonus',
+        description: 'Finish with 90% accuracy',
+        type: 'bonus',
+        condition: 'accuracy',
+        target: 90,
+        points: 135,
+        required: false
+      }
+    ],
+    rewards: [
+      { type: 'points', value: 270, description: 'Level completion bonus' }
+    ]
+  },
+
+  {
+    id: 24,
+    name: "Digit Detective",
+    description: "Look closely: the 7 has to be in the tens place!",
+    category: 'advanced',
+    requirements: { minScore: 650, previousLevel: 23 },
+    parameters: {
+      gridSize: { rows: 6, cols: 7 },
+      timeLimit: 50,
+      rule: 'placeValue',
+      targetNumber: 7,
+      secondaryTargetNumber: 10,
+      enemyCount: 3,
+      enemyTypes: ['standard', 'smart', 'hunter'],
+      difficultyModifiers: [],
+      numberRange: { min: 10, max: 999 },
+      targetCount: { min: 5, max: 8 }
+    },
+    objectives: [
+      {
+        id: 'complete',
+        description: 'Eat all numbers with 7 in the tens place',
+        type: 'primary',
+        condition: 'complete',
+        points: 280,
+        required: true
+      },
+      {
+        id: 'no_mistakes',
+        description: 'Complete without any mistakes',
+        type: 'bonus',
+        condition: 'noMistakes',
+        points: 140,
+        required: false
+      }
+    ],
+    rewards: [
+      { type: 'points', value: 280, description: 'Level completion bonus' },
+      { type: 'badge', value: 'digit_detective', description: 'Digit Detective badge earned!' }
+    ]
+  },
+
+  {
+    id: 25,
+    name: "Mystery Number",
+    description: "Every equation hides an x. Find the ones where x is 7!",
+    category: 'advanced',
+    requirements: { minScore: 680, previousLevel: 24 },
+    parameters: {
+      gridSize: { rows: 6, cols: 7 },
+      timeLimit: 60,
+      rule: 'equations',
+      targetNumber: 7,
+      enemyCount: 3,
+      enemyTypes: ['standard', 'smart', 'blocker'],
+      difficultyModifiers: ['extraTime'],
+      targetCount: { min: 4, max: 7 }
+    },
+    objectives: [
+      {
+        id: 'complete',
+        description: 'Eat all equations where x = 7',
+        type: 'primary',
+        condition: 'complete',
+        points: 300,
+        required: true
+      },
+      {
+        id: 'accuracy_bonus',
+        description: 'Finish with 90% accuracy',
+        type: 'bonus',
+        condition: 'accuracy',
+        target: 90,
+        points: 150,
+        required: false
+      }
+    ],
+    rewards: [
+      { type: 'points', value: 300, description: 'Level completion bonus' },
+      { type: 'unlock', value: 'master_levels', description: 'Master levels unlocked!' }
+    ]
+  },
+
+  // MASTER LEVELS (26+)
+  {
+    id: 26,
+    name: "Algebra Arena",
+    description: "Harder equations, smarter enemies. Solve for x = 12 under pressure!",
+    category: 'master',
+    requirements: { minScore: 720, previousLevel: 25 },
+    parameters: {
+      gridSize: { rows: 7, cols: 8 },
+      timeLimit: 55,
+      rule: 'equations',
+      targetNumber: 12,
+      enemyCount: 4,
+      enemyTypes: ['standard', 'smart', 'hunter', 'speed'],
+      difficultyModifiers: ['smarterEnemies'],
+      targetCount: { min: 5, max: 8 }
+    },
+    objectives: [
+      {
+        id: 'complete',
+        description: 'Eat all equations where x = 12',
+        type: 'primary',
+        condition: 'complete',
+        points: 350,
+        required: true
+      },
+      {
+        id: 'no_mistakes',
+        description: 'Complete without any mistakes',
+        type: 'bonus',
+        condition: 'noMistakes',
+        points: 175,
+        required: false
+      }
+    ],
+    rewards: [
+      { type: 'points', value: 350, description: 'Level completion bonus' },
+      { type: 'badge', value: 'algebra_ace', description: 'Algebra Ace badge earned!' }
+    ]
+  },
+
+  {
+    id: 27,
+    name: "Below Zero",
+    description: "Numbers dip below zero! Find sums and differences that equal -3.",
+    category: 'master',
+    requirements: { minScore: 760, previousLevel: 26 },
+    parameters: {
+      gridSize: { rows: 7, cols: 8 },
+      timeLimit: 60,
+      rule: 'integers',
+      targetNumber: -3,
+      enemyCount: 4,
+      enemyTypes: ['standard', 'smart', 'blocker', 'speed'],
+      difficultyModifiers: [],
+      numberRange: { min: -10, max: 10 },
+      targetCount: { min: 5, max: 8 }
+    },
+    objectives: [
+      {
+        id: 'complete',
+        description: 'Eat all sums and differences equal to -3',
+        type: 'primary',
+        condition: 'complete',
+        points: 370,
+        required: true
+      },
+      {
+        id: 'accuracy_bonus',
+        description: 'Finish with 90% accuracy',
+        type: 'bonus',
+        condition: 'accuracy',
+        target: 90,
+        points: 185,
+        required: false
+      }
+    ],
+    rewards: [
+      { type: 'points', value: 370, description: 'Level completion bonus' }
+    ]
+  },
+
+  {
+    id: 28,
+    name: "Distance from Zero",
+    description: "Absolute value is how far a number is from zero. Which ones equal 7?",
+    category: 'master',
+    requirements: { minScore: 800, previousLevel: 27 },
+    parameters: {
+      gridSize: { rows: 7, cols: 8 },
+      timeLimit: 60,
+      rule: 'absoluteValue',
+      targetNumber: 7,
+      enemyCount: 4,
+      enemyTypes: ['standard', 'smart', 'hunter', 'speed'],
+      difficultyModifiers: ['smarterEnemies'],
+      targetCount: { min: 5, max: 8 }
+    },
+    objectives: [
+      {
+        id: 'complete',
+        description: 'Eat all absolute values equal to 7',
+        type: 'primary',
+        condition: 'complete',
+        points: 390,
+        required: true
+      },
+      {
+        id: 'no_mistakes',
+        description: 'Complete without any mistakes',
+        type: 'bonus',
+        condition: 'noMistakes',
+        points: 195,
+        required: false
+      }
+    ],
+    rewards: [
+      { type: 'points', value: 390, description: 'Level completion bonus' },
+      { type: 'badge', value: 'integer_expert', description: 'Integer Expert badge earned!' }
+    ]
+  },
+
+  {
+    id: 29,
+    name: "Power Up",
+    description: "2^6, 4^3 and 8^2 are all 64. Watch out for 6^2!",
+    category: 'master',
+    requirements: { minScore: 840, previousLevel: 28 },
+    parameters: {
+      gridSize: { rows: 7, cols: 8 },
+      timeLimit: 60,
+      rule: 'powers',
+      targetNumber: 64,
+      enemyCount: 4,
+      enemyTypes: ['standard', 'smart', 'blocker', 'speed'],
+      difficultyModifiers: [],
+      targetCount: { min: 4, max: 8 }
+    },
+    objectives: [
+      {
+        id: 'complete',
+        description: 'Eat all powers equal to 64',
+        type: 'primary',
+        condition: 'complete',
+        points: 410,
+        required: true
+      },
+      {
+        id: 'accuracy_bonus',
+        description: 'Finish with 90% accuracy',
+        type: 'bonus',
+        condition: 'accuracy',
+        target: 90,
+        points: 205,
+        required: false
+      }
+    ],
+    rewards: [
+      { type: 'points', value: 410, description: 'Level completion bonus' }
+    ]
+  },
+
+  {
+    id: 30,
+    name: "Doubling Down",
+    description: "Keep doubling from 2. Every power of 2 is a snack; other even numbers are traps!",
+    category: 'master',
+    requirements: { minScore: 880, previousLevel: 29 },
+    parameters: {
+      gridSize: { rows: 7, cols: 8 },
+      timeLimit: 55,
+      rule: 'powersOf',
+      targetNumber: 2,
+      enemyCount: 4,
+      enemyTypes: ['standard', 'smart', 'hunter', 'speed'],
+      difficultyModifiers: ['smarterEnemies'],
+      numberRange: { min: 2, max: 1000 },
+      targetCount: { min: 5, max: 8 }
+    },
+    objectives: [
+      {
+        id: 'complete',
+        description: 'Eat all powers of 2',
+        type: 'primary',
+        condition: 'complete',
+        points: 430,
+        required: true
+      },
+      {
+        id: 'time_bonus',
+        description: 'Complete with 15+ seconds remaining',
+        type: 'bonus',
+        condition: 'time',
+        target: 15,
+        points: 215,
+        required: false
+      }
+    ],
+    rewards: [
+      { type: 'points', value: 430, description: 'Level completion bonus' },
+      { type: 'badge', value: 'power_player', description: 'Power Player badge earned!' }
+    ]
+  },
+
+  {
+    id: 31,
+    name: "Quarter Quest",
+    description: "25%, 1/4, 0.25 and 25/100 are all the same amount. Can you spot every one?",
+    category: 'master',
+    requirements: { minScore: 920, previousLevel: 30 },
+    parameters: {
+      gridSize: { rows: 7, cols: 8 },
+      timeLimit: 60,
+      rule: 'percentages',
+      targetNumber: 0.25,
+      enemyCount: 4,
+      enemyTypes: ['standard', 'smart', 'blocker', 'hunter'],
+      difficultyModifiers: [],
+      targetCount: { min: 4, max: 8 }
+    },
+    objectives: [
+      {
+        id: 'complete',
+        description: 'Eat everything equal to 0.25',
+        type: 'primary',
+        condition: 'complete',
+        points: 450,
+        required: true
+      },
+      {
+        id: 'no_mistakes',
+        description: 'Complete without any mistakes',
+        type: 'bonus',
+        condition: 'noMistakes',
+        points: 225,
+        required: false
+      }
+    ],
+    rewards: [
+      { type: 'points', value: 450, description: 'Level completion bonus' },
+      { type: 'badge', value: 'percent_pro', description: 'Percent Pro badge earned!' }
+    ]
+  },
+
+  {
+    id: 32,
+    name: "Pocket Change",
+    description: "Count the coins! Find every handful worth exactly 75¢.",
+    category: 'master',
+    requirements: { minScore: 960, previousLevel: 31 },
+    parameters: {
+      gridSize: { rows: 6, cols: 7 },
+      timeLimit: 70,
+      rule: 'money',
+      targetNumber: 75,
+      currency: 'USD',
+      enemyCount: 4,
+      enemyTypes: ['standard', 'smart', 'blocker', 'speed'],
+      difficultyModifiers: ['extraTime'],
+      targetCount: { min: 4, max: 8 }
+    },
+    objectives: [
+      {
+        id: 'complete',
+        description: 'Eat all coin combinations worth 75¢',
+        type: 'primary',
+        condition: 'complete',
+        points: 470,
+        required: true
+      },
+      {
+        id: 'accuracy_bonus',
+        description: 'Finish with 90% accuracy',
+        type: 'bonus',
+        condition: 'accuracy',
+        target: 90,
+        points: 235,
+        required: false
+      }
+    ],
+    rewards: [
+      { type: 'points', value: 470, description: 'Level completion bonus' },
+      { type: 'badge', value: 'coin_counter', description: 'Coin Counter badge earned!' }
+    ]
+  },
+
+  {
+    id: 33,
+    name: "Three O'Clock Hour",
+    description: "Read the clocks! Find every time from 3:00 up to (but not including) 4:00.",
+    category: 'master',
+    requirements: { minScore: 1000, previousLevel: 32 },
+    parameters: {
+      gridSize: { rows: 6, cols: 7 },
+      timeLimit: 70,
+      rule: 'time',
+      targetNumber: 180,
+      secondaryTargetNumber: 240,
+      enemyCount: 4,
+      enemyTypes: ['standard', 'smart', 'blocker', 'hunter'],
+      difficultyModifiers: ['extraTime'],
+      targetCount: { min: 4, max: 8 }
+    },
+    objectives: [
+      {
+        id: 'complete',
+        description: 'Eat all times between 3:00 and 4:00',
+        type: 'primary',
+        condition: 'complete',
+        points: 490,
+        required: true
+      },
+      {
+        id: 'accuracy_bonus',
+        description: 'Finish with 90% accuracy',
+        type: 'bonus',
+        condition: 'accuracy',
+        target: 90,
+        points: 245,
+        required: false
+      }
+    ],
+    rewards: [
+      { type: 'points', value: 490, description: 'Level completion bonus' },
+      { type: 'badge', value: 'time_teller', description: 'Time Teller badge earned!' }
+    ]
+  },
+
+  {
+    id: 34,
+    name: "Right On",
+    description: "Geometry time! Find every shape with a right angle, whichever way it is turned.",
+    category: 'master',
+    requirements: { minScore: 1040, previousLevel: 33 },
+    parameters: {
+      gridSize: { rows: 6, cols: 7 },
+      timeLimit: 70,
+      rule: 'shapes',
+      targetNumber: 0,
+      shapeProperty: 'rightAngle',
+      enemyCount: 4,
+      enemyTypes: ['standard', 'smart', 'blocker', 'speed'],
+      difficultyModifiers: ['extraTime'],
+      targetCount: { min: 4, max: 8 }
+    },
+    objectives: [
+      {
+        id: 'complete',
+        description: 'Eat all shapes with a right angle',
+        type: 'primary',
+        condition: 'complete',
+        points: 510,
+        required: true
+      },
+      {
+        id: 'accuracy_bonus',
+        description: 'Finish with 90% accuracy',
+        type: 'bonus',
+        condition: 'accuracy',
+        target: 90,
+        points: 255,
+        required: false
+      }
+    ],
+    rewards: [
+      { type: 'points', value: 510, description: 'Level completion bonus' },
+      { type: 'badge', value: 'shape_spotter', description: 'Shape Spotter badge earned!' }
+    ]
+  },
+
+  {
+    id: 35,
+    name: "Say It in Words",
+    description: "Read carefully! Find every phrase that means 12, like \"half of 24\".",
+    category: 'master',
+    requirements: { minScore: 1080, previousLevel: 34 },
+    parameters: {
+      gridSize: { rows: 6, cols: 7 },
+      timeLimit: 75,
+      rule: 'words',
+      targetNumber: 12,
+      enemyCount: 4,
+      enemyTypes: ['standard', 'smart', 'blocker', 'hunter'],
+      difficultyModifiers: ['extraTime'],
+      targetCount: { min: 4, max: 8 }
+    },
+    objectives: [
+      {
+        id: 'complete',
+        description: 'Eat all phrases equal to 12',
+        type: 'primary',
+        condition: 'complete',
+        points: 530,
+        required: true
+      },
+      {
+        id: 'accuracy_bonus',
+        description: 'Finish with 90% accuracy',
+        type: 'bonus',
+        condition: 'accuracy',
+        target: 90,
+        points: 265,
+        required: false
+      }
+    ],
+    rewards: [
+      { type: 'points', value: 530, description: 'Level completion bonus' },
+      { type: 'badge', value: 'word_wizard', description: 'Word Wizard badge earned!' }
+    ]
+  },
+
+  {
+    id: 36,
+    name: "All Your Base",
+    description: "Binary, octal or hex: find every way of writing 12.",
+    category: 'master',
+    requirements: { minScore: 1120, previousLevel: 35 },
+    parameters: {
+      gridSize: { rows: 6, cols: 7 },
+      timeLimit: 75,
+      rule: 'bases',
+      targetNumber: 12,
+      enemyCount: 4,
+      enemyTypes: ['standard', 'smart', 'blocker', 'speed'],
+      difficultyModifiers: ['extraTime'],
+      targetCount: { min: 4, max: 8 }
+    },
+    objectives: [
+      {
+        id: 'complete',
+        description: 'Eat all binary, octal and hex numbers equal to 12',
+        type: 'primary',
+        condition: 'complete',
+        points: 550,
+        required: true
+      },
+      {
+        id: 'accuracy_bonus',
+        description: 'Finish with 90% accuracy',
+        type: 'bonus',
+        condition: 'accuracy',
+        target: 90,
+        points: 275,
+        required: false
+      }
+    ],
+    rewards: [
+      { type: 'points', value: 550, description: 'Level completion bonus' },
+      { type: 'badge', value: 'base_jumper', description: 'Base Jumper badge earned!' }
+    ]
+  },
+
+  {
+    id: 37,
+    name: "Bare Bits",
+    description: "No 0b to help you now! Find every binary number equal to 21.",
+    category: 'master',
+    requirements: { minScore: 1160, previousLevel: 36 },
+    parameters: {
+      gridSize: { rows: 6, cols: 7 },
+      timeLimit: 75,
+      rule: 'bases',
+      targetNumber: 21,
+      secondaryTargetNumber: 2,
+      enemyCount: 4,
+      enemyTypes: ['standard', 'smart', 'blocker', 'speed'],
+      difficultyModifiers: ['extraTime', 'hideBasePrefixes'],
+      targetCount: { min: 3, max: 3 }
+    },
+    objectives: [
+      {
+        id: 'complete',
+        description: 'Eat all binary numbers equal to 21',
+        type: 'primary',
+        condition: 'complete',
+        points: 570,
+        required: true
+      },
+      {
+        id: 'accuracy_bonus',
+        description: 'Finish with 90% accuracy',
+        type: 'bonus',
+        condition: 'accuracy',
+        target: 90,
+        points: 285,
+        required: false
+      }
+    ],
+    rewards: [
+      { type: 'points', value: 570, description: 'Level completion bonus' },
+      { type: 'badge', value: 'bit_master', description: 'Bit Master badge earned!' }
+    ]
+  },
+
+  {
+    id: 38,
+    name: "When in Rome",
+    description: "XIV = 14? Eat every Roman numeral paired with its true value.",
+    category: 'master',
+    requirements: { minScore: 1200, previousLevel: 37 },
+    parameters: {
+      gridSize: { rows: 6, cols: 7 },
+      timeLimit: 75,
+      rule: 'roman',
+      targetNumber: 50,
+      enemyCount: 4,
+      enemyTypes: ['standard', 'smart', 'blocker', 'hunter'],
+      difficultyModifiers: ['extraTime'],
+      targetCount: { min: 4, max: 8 }
+    },
+    objectives: [
+      {
+        id: 'complete',
+        description: 'Eat all Roman numerals matched with their value',
+        type: 'primary',
+        condition: 'complete',
+        points: 590,
+        required: true
+      },
+      {
+        id: 'accuracy_bonus',
+        description: 'Finish with 90% accuracy',
+        type: 'bonus',
+        condition: 'accuracy',
+        target: 90,
+        points: 295,
+        required: false
+      }
+    ],
+    rewards: [
+      { type: 'points', value: 590, description: 'Level completion bonus' },
+      { type: 'badge', value: 'centurion', description: 'Centurion badge earned!' }
+    ]
+  },
+
+  {
+    id: 39,
+    name: "Legion of Sixes",
+    description: "Every number is a Roman numeral. Find the multiples of VI!",
+    category: 'master',
+    requirements: { minScore: 1240, previousLevel: 38 },
+    parameters: {
+      gridSize: { rows: 6, cols: 7 },
+      timeLimit: 75,
+      rule: 'multiples',
+      targetNumber: 6,
+      numberDisplay: 'roman',
+      enemyCount: 4,
+      enemyTypes: ['standard', 'smart', 'blocker', 'hunter'],
+      difficultyModifiers: ['extraTime'],
+      targetCount: { min: 4, max: 8 }
+    },
+    objectives: [
+      {
+        id: 'complete',
+        description: 'Eat all multiples of VI',
+        type: 'primary',
+        condition: 'complete',
+        points: 610,
+        required: true
+      },
+      {
+        id: 'accuracy_bonus',
+        description: 'Finish with 90% accuracy',
+        type: 'bonus',
+        condition: 'accuracy',
+        target: 90,
+        points: 305,
+        required: false
+      }
+    ],
+    rewards: [
+      { type: 'points', value: 610, description: 'Level completion bonus' },
+      { type: 'badge', value: 'emperor', description: 'Emperor badge earned!' }
+    ]
+  }
+];
+
+// === LEVEL UTILITY FUNCTIONS ===
+
+export function getLevelById(id: number): Level | undefined {
+  return LEVELS.find(level => level.id === id);
+}
+
+export function getLevelsByCategory(category: LevelCategory): Level[] {
+  return LEVELS.filter(level => level.category === category);
+}
+
+export function getNextLevel(currentLevelId: number): Level | undefined {
+  return LEVELS.find(level => level.id === currentLevelId + 1);
+}
+
+export function isLevelUnlocked(levelId: number, completedLevels: number[], playerStats?: any): boolean {
+  const level = getLevelById(levelId);
+  if (!level) return false;
+  
+  // Level 1 is always unlocked
+  if (levelId === 1) return true;
+  
+  // Check if previous level is completed
+  const previousLevelCompleted = completedLevels.includes(level.requirements.previousLevel);
+  if (!previousLevelCompleted) return false;
+  
+  // Check minimum score requirement (if we have player stats)
+  if (playerStats && playerStats.totalScore < level.requirements.minScore) {
+    return false;
+  }
+  
+  return true;
+}
+
+export function calculateLevelStars(score: number, objectives: string[], level: Level): number {
+  let stars = 0;
+  
+  // 1 star for completion
+  stars = 1;
+  
+  // 2nd star for good performance (complete all primary objectives + some bonus)
+  const bonusObjectives = level.objectives.filter(obj => obj.type === 'bonus');
+  const completedBonus = objectives.filter(id => 
+    bonusObjectives.some(obj => obj.id === id)
+  ).length;
+  
+  if (completedBonus >= 1) {
+    stars = 2;
+  }
+  
+  // 3rd star for excellent performance (all objectives + high score)
+  if (completedBonus === bonusObjectives.length && score >= getMinimumThreeStarScore(level)) {
+    stars = 3;
+  }
+  
+  return stars;
+}
+
+export function getMinimumThreeStarScore(level: Level): number {
+  const baseScore = level.objectives
+    .filter(obj => obj.type === 'primary')
+    .reduce((sum, obj) => sum + obj.points, 0);
+  
+  // Three stars require roughly 150% of base objective points
+  return Math.floor(baseScore * 1.5);
+}
+
+export function getLevelRuleTarget(params: LevelParameters): RuleTarget {
+  return {
+    targetNumber: params.targetNumber || 0,
+    secondaryTargetNumber: params.secondaryTargetNumber,
+    currency: params.currency,
+    shapeProperty: params.shapeProperty,
+    locale: params.locale,
+    hidePrefixes: params.difficultyModifiers.includes('hideBasePrefixes'),
+    numberRange: params.numberRange
+  };
+}
+
+export function generateLevelParameters(level: Level): LevelParameters {
+  // Apply difficulty modifiers to base parameters
+  let params = { ...level.parameters };
+  
+  level.parameters.difficultyModifiers.forEach(modifier => {
+    switch (modifier) {
+      case 'extraTime':
+        params.timeLimit += 15;
+        break;
+      case 'lessTime':
+        params.timeLimit -= 10;
+        break;
+      // Replace targetCount rather than changing it, since the copy above still shares it with the level
+      case 'moreTargets':
+        if (params.targetCount) {
+          params.targetCount = { min: params.targetCount.min + 1, max: params.targetCount.max + 2 };
+        }
         break;
       case 'lessTargets':
         if (params.targetCount) {
-          params.targetCount.min = Math.max(2, params.targetCount.min - 1);
-          params.targetCount.max = Math.max(3, params.targetCount.max - 1);
+          params.targetCount = {
+            min: Math.max(2, params.targetCount.min - 1),
+            max: Math.max(3, params.targetCount.max - 1)
+          };
         }
         break;
       case 'fasterEnemies':
@@ -534,12 +1794,64 @@ export function generateLevelParameters(level: Level): LevelParameters {
       case 'smarterEnemies':
         // This will be handled in enemy AI logic
         break;
+      case 'hideBasePrefixes':
+        // Read by getLevelRuleTarget for the bases rule
+        break;
     }
   });
   
   return params;
 }
 
+function validateLayout(level: Level): string[] {
+  const { parameters } = level;
+  const layout = level.layout!;
+  const { rows, cols } = parameters.gridSize;
+  const errors: string[] = [];
+  
+  if (layout.cells.length !== rows || layout.cells.some(row => row.length !== cols)) {
+    return [`Layout must have ${rows} rows of ${cols} cells to match the grid size`];
+  }
+  
+  const isOpen = ({ row, col }: Position) =>
+    row >= 0 && row < rows && col >= 0 && col < cols && layout.cells[row][col] !== null;
+  if (!isOpen(layout.muncher)) {
+    errors.push('Layout must start the Muncher on an open cell inside the grid');
+  }
+  if (!layout.troggles.every(isOpen)) {
+    errors.push('Layout must spawn every Troggle on an open cell inside the grid');
+  }
+  const starts = new Set([layout.muncher, ...layout.troggles].map(({ row, col }) => `${row},${col}`));
+  if (starts.size !== layout.troggles.length + 1) {
+    errors.push('Layout must start the Muncher and each Troggle on different cells');
+  }
+  // Compare with the count after modifiers like moreEnemies, as random boards use
+  const { enemyCount } = generateLevelParameters(level);
+  if (layout.troggles.length !== enemyCount) {
+    errors.push(`Layout spawns ${layout.troggles.length} Troggles but the level has ${enemyCount} enemies`);
+  }
+  if (errors.length > 0) return errors;
+  
+  const { numberRange, targetCount } = parameters;
+  const outOfRange = layout.cells.flat().filter(value =>
+    typeof value === 'number' && numberRange && (value < numberRange.min || value > numberRange.max)
+  );
+  if (outOfRange.length > 0) {
+    errors.push(`Layout values ${outOfRange.join(', ')} are outside the number range`);
+  }
+  
+  const grid = gridFromLayout(layout, parameters.rule, getLevelRuleTarget(parameters));
+  const targets = grid.flat().filter(cell => cell.isTarget).length;
+  if (targetCount && targets > 0 && (targets < targetCount.min || targets > targetCount.max)) {
+    errors.push(`Layout has ${targets} targets but targetCount allows ${targetCount.min}-${targetCount.max}`);
+  }
+  
+  // Hand-made boards have no second try, so anything the analyzer calls unfair is an error
+  analyzeBoard(grid, layout.muncher, layout.troggles).problems.forEach(problem => errors.push(`Layout: ${problem}`));
+  
+  return errors;
+}
+
 export function validateLevel(level: Level): { valid: boolean; errors: string[] } {
   const errors: string[] = [];
   
@@ -563,6 +1875,37 @@ export function validateLevel(level: Level): { valid: boolean; errors: string[]
     errors.push('Grid must be at least 3x3');
   }
   
+  // targetNumber stays undefined when the level leaves it out, so a missing target is reported
+  const { rule, targetNumber } = level.parameters;
+  const ruleErrors = validateRule(rule, { ...getLevelRuleTarget(level.parameters), targetNumber });
+  ruleErrors.forEach(error => errors.push(error));
+  
+  // The layout's targets come from the rule, so only check them once the rule is sound
+  if (level.layout && ruleErrors.length === 0) {
+    validateLayout(level).forEach(error => errors.push(error));
+  }
+  
+  const { numberRange, targetCount } = level.parameters;
+  if (numberRange && numberRange.min > numberRange.max) {
+    errors.push('Number range minimum cannot be above its maximum');
+  }
+  
+  // Boards quietly ignore a range that leaves too few answers, and place fewer
+  // targets than asked when the rule runs out, so catch both here
+  if (ruleErrors.length === 0) {
+    const range = numberRange ?? DEFAULT_NUMBER_RANGE;
+    const answers = correctValuesInRange(getRule(rule), getLevelRuleTarget(level.parameters), range, createRandom(0)).length;
+    if (answers < MIN_CORRECT_VALUES) {
+      errors.push(`Number range ${range.min}-${range.max} leaves only ${answers} correct values`);
+    } else if (targetCount && targetCount.min > answers) {
+      errors.push(`Target count minimum is ${targetCount.min} but the rule has only ${answers} correct values`);
+    }
+  }
+  
+  if (targetCount && (targetCount.min < 1 || targetCount.min > targetCount.max)) {
+    errors.push('Target count must be at least 1, with the minimum no higher than the maximum');
+  }
+  
   if (level.objectives.filter(obj => obj.required).length === 0) {
     errors.push('At least one required objective must be defined');
   }
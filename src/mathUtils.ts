@@ -0,0 +1,129 @@
+// Shared math helpers used by the rule definitions and the game logic
+import type { Random } from './types';
+
+// === RANDOM NUMBERS ===
+// Games draw from a seeded generator so the same seed gives the same boards and
+// the same Troggle moves. The state is a single 32-bit number, which is what
+// GameState.randomState stores between moves. Every helper takes the generator
+// as an argument, so nothing random happens without one being passed in.
+
+// Mulberry32: small, fast and plenty random for a game
+export function createRandom(seed: number): Random {
+  let state = seed >>> 0;
+  return {
+    next() {
+      state = (state + 0x6d2b79f5) >>> 0;
+      let t = state;
+      t = Math.imul(t ^ (t >>> 15), t | 1);
+      t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+      return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    },
+    get state() {
+      return state;
+    }
+  };
+}
+
+// A fresh seed for a game nobody asked to reproduce
+export function randomSeed(): number {
+  return Math.floor(Math.random() * 4294967296);
+}
+
+// Utility to generate a random integer between min and max (inclusive)
+export function randInt(min: number, max: number, random: Random): number {
+  return Math.floor(random.next() * (max - min + 1)) + min;
+}
+
+// Pick a random element from a non-empty list
+export function randChoice<T>(items: readonly T[], random: Random): T {
+  return items[randInt(0, items.length - 1, random)];
+}
+
+// Where counting numbers on a board come from when the level sets no range
+export const DEFAULT_NUMBER_RANGE = { min: 2, max: 50 };
+
+// A shuffled copy of the list (Fisher-Yates)
+export function shuffle<T>(items: readonly T[], random: Random): T[] {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = randInt(0, i, random);
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+}
+
+// Check if a number is prime
+export function isPrime(n: number): boolean {
+  if (n < 2) return false;
+  for (let i = 2; i * i <= n; i++) {
+    if (n % i === 0) return false;
+  }
+  return true;
+}
+
+// Greatest common divisor (always non-negative)
+export function gcd(a: number, b: number): number {
+  a = Math.abs(a);
+  b = Math.abs(b);
+  while (b !== 0) {
+    [a, b] = [b, a % b];
+  }
+  return a;
+}
+
+// Least common multiple (0 when either number is 0)
+export function lcm(a: number, b: number): number {
+  if (a === 0 || b === 0) return 0;
+  return Math.abs(a * b) / gcd(a, b);
+}
+
+// Every whole number from low to high inclusive, never going below 0
+export function numbersBetween(low: number, high: number): number[] {
+  const values: number[] = [];
+  for (let n = Math.max(0, low); n <= high; n++) {
+    values.push(n);
+  }
+  return values;
+}
+
+// Smallest-denominator fraction for a decimal like 0.75 -> 3/4
+export function toFraction(value: number, maxDenominator: number = 100): { numerator: number; denominator: number } {
+  for (let denominator = 1; denominator <= maxDenominator; denominator++) {
+    const numerator = Math.round(value * denominator);
+    if (Math.abs(numerator / denominator - value) < 1e-9) {
+      return { numerator, denominator };
+    }
+  }
+  return { numerator: Math.round(value * maxDenominator), denominator: maxDenominator };
+}
+
+// Exact fraction for a decimal as written, e.g. 0.25 -> 25/100 (null for values like 1e-7).
+// Works from the digits rather than floating point arithmetic.
+export function decimalToFraction(value: number): { numerator: number; denominator: number } | null {
+  const text = String(value);
+  if (!/^-?\d+(\.\d+)?$/.test(text)) return null;
+  const [whole, decimals = ''] = text.split('.');
+  const denominator = 10 ** decimals.length;
+  return { numerator: Number(whole + decimals), denominator };
+}
+
+export function isPerfectSquare(n: number): boolean {
+  if (n < 0) return false;
+  const root = Math.round(Math.sqrt(n));
+  return root * root === n;
+}
+
+export function isPerfectCube(n: number): boolean {
+  const root = Math.round(Math.cbrt(n));
+  return root * root * root === n;
+}
+
+// 1, 3, 6, 10, 15, ... (n is triangular when 8n+1 is a perfect square)
+export function isTriangular(n: number): boolean {
+  return n > 0 && isPerfectSquare(8 * n + 1);
+}
+
+// 1, 2, 3, 5, 8, 13, ... (n is Fibonacci when 5n²±4 is a perfect square)
+export function isFibonacci(n: number): boolean {
+  return n > 0 && (isPerfectSquare(5 * n * n + 4) || isPerfectSquare(5 * n * n - 4));
+}
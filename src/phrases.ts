@@ -0,0 +1,73 @@
+import type { PhraseBook, PhraseTemplate, WordsValue } from './types';
+
+// === PHRASE TEMPLATES ===
+// The arithmetic behind each phrase. Wording lives in the phrase books below, so
+// a new language only needs a book with a phrase for every template id.
+
+const wholeOrNull = (n: number) => (Number.isInteger(n) && n >= 0 ? n : null);
+
+export const PHRASE_TEMPLATES: PhraseTemplate[] = [
+  { id: 'half', apply: n => n / 2, operandFor: v => wholeOrNull(v * 2), opposite: 'double' },
+  { id: 'double', apply: n => n * 2, operandFor: v => wholeOrNull(v / 2), opposite: 'half' },
+  { id: 'quarter', apply: n => n / 4, operandFor: v => wholeOrNull(v * 4), opposite: 'half' },
+  { id: 'triple', apply: n => n * 3, operandFor: v => wholeOrNull(v / 3), opposite: 'double' },
+  { id: 'oneMore', apply: n => n + 1, operandFor: v => wholeOrNull(v - 1), opposite: 'oneLess' },
+  { id: 'oneLess', apply: n => n - 1, operandFor: v => wholeOrNull(v + 1), opposite: 'oneMore' },
+  { id: 'tenMore', apply: n => n + 10, operandFor: v => wholeOrNull(v - 10), opposite: 'tenLess' },
+  { id: 'tenLess', apply: n => n - 10, operandFor: v => wholeOrNull(v + 10), opposite: 'tenMore' }
+];
+
+export function getPhraseTemplate(id: string): PhraseTemplate | undefined {
+  return PHRASE_TEMPLATES.find(template => template.id === id);
+}
+
+// === PHRASE BOOKS ===
+
+export const DEFAULT_LOCALE = 'en';
+
+export const PHRASE_BOOKS: Record<string, PhraseBook> = {
+  en: {
+    id: 'en',
+    name: 'English',
+    phrases: {
+      half: n => `half of ${n}`,
+      double: n => `double ${n}`,
+      quarter: n => `a quarter of ${n}`,
+      triple: n => `triple ${n}`,
+      oneMore: n => `one more than ${n}`,
+      oneLess: n => `one less than ${n}`,
+      tenMore: n => `ten more than ${n}`,
+      tenLess: n => `ten less than ${n}`
+    }
+  },
+  es: {
+    id: 'es',
+    name: 'Español',
+    phrases: {
+      half: n => `la mitad de ${n}`,
+      double: n => `el doble de ${n}`,
+      quarter: n => `un cuarto de ${n}`,
+      triple: n => `el triple de ${n}`,
+      oneMore: n => `uno más que ${n}`,
+      oneLess: n => `uno menos que ${n}`,
+      tenMore: n => `diez más que ${n}`,
+      tenLess: n => `diez menos que ${n}`
+    }
+  }
+};
+
+export function getPhraseBook(id: string = DEFAULT_LOCALE): PhraseBook {
+  return PHRASE_BOOKS[id] ?? PHRASE_BOOKS[DEFAULT_LOCALE];
+}
+
+// "half of 12"; templates missing from a book fall back to English
+export function formatPhrase(value: WordsValue): string {
+  const wording = getPhraseBook(value.locale).phrases[value.phrase]
+    ?? PHRASE_BOOKS[DEFAULT_LOCALE].phrases[value.phrase];
+  return wording ? wording(value.operand) : `${value.phrase} ${value.operand}`;
+}
+
+// The number a phrase stands for, or null for an unknown template
+export function phraseValue(value: WordsValue): number | null {
+  return getPhraseTemplate(value.phrase)?.apply(value.operand) ?? null;
+}
@@ -0,0 +1,35 @@
+// === ROMAN NUMERALS ===
+// Standard subtractive form (4 is IV, not IIII), which only reaches 3999.
+
+export const MAX_ROMAN = 3999;
+
+const NUMERALS: [number, string][] = [
+  [1000, 'M'], [900, 'CM'], [500, 'D'], [400, 'CD'],
+  [100, 'C'], [90, 'XC'], [50, 'L'], [40, 'XL'],
+  [10, 'X'], [9, 'IX'], [5, 'V'], [4, 'IV'], [1, 'I']
+];
+
+export function canWriteRoman(value: number): boolean {
+  return Number.isInteger(value) && value >= 1 && value <= MAX_ROMAN;
+}
+
+// 14 -> "XIV"; callers check canWriteRoman first
+export function toRoman(value: number): string {
+  let remaining = value;
+  let result = '';
+  for (const [amount, numeral] of NUMERALS) {
+    while (remaining >= amount) {
+      result += numeral;
+      remaining -= amount;
+    }
+  }
+  return result;
+}
+
+// "Eat all multiples of 12" -> "Eat all multiples of XII". Times, decimals,
+// percents and amounts ("3:05", "0.25", "25%", "75¢") are left as they are.
+export function romanizeNumbers(text: string): string {
+  return text.replace(/(?<![\d.:])\d+(?![\d.:%¢])/g, match =>
+    canWriteRoman(Number(match)) ? toRoman(Number(match)) : match
+  );
+}
@@ -0,0 +1,39 @@
+import type { CellValue, Random, RuleDefinition } from '../types';
+import type { ExpressionNode } from '../expressionParser';
+import { binary, formatExpression } from '../expressionParser';
+import { randInt } from '../mathUtils';
+import { formatMatching, isExpressionFor, wrongOperationDistractors } from './expressionRule';
+
+// Every "a+b" problem with b <= 20 that equals targetNumber, in both orientations
+export function additionProblems(targetNumber: number): string[] {
+  const candidates: ExpressionNode[] = [];
+  for (let a = 0; a <= targetNumber; a++) {
+    const b = targetNumber - a;
+    if (b >= 0 && b <= 20) {
+      candidates.push(binary('+', a, b), binary('+', b, a));
+    }
+  }
+  return formatMatching(candidates, targetNumber);
+}
+
+export function randomAdditionProblem(random: Random): string {
+  return formatExpression(binary('+', randInt(0, 20, random), randInt(0, 20, random)));
+}
+
+export function isAdditionProblemFor(value: CellValue, targetNumber: number): boolean {
+  return isExpressionFor(value, targetNumber, ['+']);
+}
+
+export const additionRule: RuleDefinition = {
+  id: 'addition',
+  usesTarget: true,
+  randomTarget: (random) => ({ targetNumber: randInt(5, 20, random) }),
+  fallbackTarget: (random) => ({ targetNumber: randInt(8, 15, random) }), // Sweet spot for addition problems
+  correctValues: ({ targetNumber }) => additionProblems(targetNumber),
+  randomValue: (_, random) => randomAdditionProblem(random),
+  isCorrect: (value, { targetNumber }) => isAdditionProblemFor(value, targetNumber),
+  phrase: ({ targetNumber }) => `sums equal to ${targetNumber}`,
+  describe: ({ targetNumber }) => `Find all sums that add up to ${targetNumber}`,
+  label: ({ targetNumber }) => `Addition = ${targetNumber}`,
+  misconceptions: ({ targetNumber }) => wrongOperationDistractors(additionProblems(targetNumber), targetNumber, '-')
+};
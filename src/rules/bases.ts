@@ -0,0 +1,93 @@
+import type { BaseNumberValue, NumberBase, Random, RuleDefinition, RuleTarget } from '../types';
+import { baseNumber, isBaseNumber } from '../cellValues';
+import { randChoice, randInt } from '../mathUtils';
+
+// Number bases: targetNumber is given in decimal and cells write numbers in
+// binary, octal or hex. secondaryTargetNumber (2, 8 or 16) keeps the board to one
+// base; target.hidePrefixes drops the 0b / 0o / 0x so the digits must be read
+// knowing the base. Leading zeros are fair game: 0b01010 is still ten.
+
+const BASES: NumberBase[] = [2, 8, 16];
+
+const BASE_NAMES: Record<NumberBase, string> = { 2: 'binary', 8: 'octal', 16: 'hex' };
+
+function isNumberBase(n: number | undefined): n is NumberBase {
+  return n === 2 || n === 8 || n === 16;
+}
+
+// Without prefixes "10" could be two, eight or sixteen, so such boards stick to
+// one base (binary unless the target names another)
+function boardBases({ secondaryTargetNumber, hidePrefixes }: RuleTarget): NumberBase[] {
+  if (isNumberBase(secondaryTargetNumber)) return [secondaryTargetNumber];
+  return hidePrefixes ? [2] : BASES;
+}
+
+function naturalDigits(value: number, base: NumberBase): number {
+  return value.toString(base).length;
+}
+
+// Digits to pad to a whole byte: 8 bits, 2 hex digits or 3 octal digits per group
+function groupedDigits(value: number, base: NumberBase): number {
+  const group = base === 2 ? 8 : base === 16 ? 2 : 3;
+  return Math.ceil(naturalDigits(value, base) / group) * group;
+}
+
+// Correct cells and distractors are padded alike, so leading zeros give nothing away
+function widthsFor(value: number, base: NumberBase): number[] {
+  const digits = naturalDigits(value, base);
+  return [digits, digits + 1, Math.max(digits + 2, groupedDigits(value, base))];
+}
+
+function write(value: number, base: NumberBase, target: RuleTarget, digits: number): BaseNumberValue {
+  return baseNumber(value, base, digits, !target.hidePrefixes);
+}
+
+// The usual slips: the decimal digits read as if already in the base ("0x10"
+// for ten), off by one, digits reversed, or one bit (or digit) wrong
+function misreading(targetNumber: number, base: NumberBase, random: Random): number {
+  const written = targetNumber.toString(base);
+  switch (randInt(0, 3, random)) {
+    case 0: {
+      const decimal = String(targetNumber);
+      const valid = [...decimal].every(digit => Number(digit) < base);
+      return valid ? parseInt(decimal, base) : targetNumber + base;
+    }
+    case 1:
+      return targetNumber + randChoice([-2, -1, 1, 2], random);
+    case 2:
+      return parseInt([...written].reverse().join(''), base);
+    default:
+      return base === 2
+        ? targetNumber ^ (1 << randInt(0, written.length - 1, random))
+        : targetNumber + randChoice([-base, base], random);
+  }
+}
+
+function describeBases(target: RuleTarget): string {
+  const bases = boardBases(target);
+  return bases.length === 1
+    ? `${BASE_NAMES[bases[0]]} numbers equal to ${target.targetNumber}`
+    : `binary, octal and hex numbers equal to ${target.targetNumber}`;
+}
+
+export const basesRule: RuleDefinition = {
+  id: 'bases',
+  usesTarget: true,
+  randomTarget: (random) => ({ targetNumber: randInt(5, 40, random) }),
+  fallbackTarget: () => ({ targetNumber: 10 }),
+  correctValues: (target) => boardBases(target).flatMap(base =>
+    widthsFor(target.targetNumber, base).map(width => write(target.targetNumber, base, target, width))
+  ),
+  randomValue: (target, random) => {
+    const base = randChoice(boardBases(target), random);
+    const value = Math.max(1, misreading(target.targetNumber, base, random));
+    return write(value, base, target, randChoice(widthsFor(value, base), random));
+  },
+  isCorrect: (value, { targetNumber }) => isBaseNumber(value) && value.value === targetNumber,
+  phrase: (target) => describeBases(target),
+  describe: (target) => `Eat all ${describeBases(target)}`,
+  label: (target) => {
+    const bases = boardBases(target);
+    return `= ${target.targetNumber} in base ${bases.join(', ')}`;
+  }
+};
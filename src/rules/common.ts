@@ -0,0 +1,65 @@
+import type { CellValue, Random, RuleDefinition } from '../types';
+import { DEFAULT_NUMBER_RANGE, gcd, lcm, randChoice, randInt } from '../mathUtils';
+import { factorsOf } from './factors';
+import { multiplesOf } from './multiples';
+
+// Two-number rules: targetNumber and secondaryTargetNumber are the pair.
+// Factors or multiples of just one of the pair are the natural distractors.
+
+// Pairs whose greatest common factor has at least three factors
+const FACTOR_PAIRS: [number, number][] = [[12, 18], [16, 24], [20, 30], [24, 36], [18, 27], [30, 45]];
+
+// Pairs whose least common multiple leaves several multiples up to 100
+const MULTIPLE_PAIRS: [number, number][] = [[2, 3], [3, 4], [4, 6], [2, 5], [3, 5], [6, 8]];
+
+const COMMON_MULTIPLE_RANGE = { min: 2, max: 100 };
+
+function isPositiveNumber(value: CellValue): value is number {
+  return typeof value === 'number' && value > 0;
+}
+
+function randomPair(pairs: [number, number][], random: Random) {
+  const [targetNumber, secondaryTargetNumber] = randChoice(pairs, random);
+  return { targetNumber, secondaryTargetNumber };
+}
+
+export const commonFactorsRule: RuleDefinition = {
+  id: 'commonFactors',
+  usesTarget: true,
+  usesSecondaryTarget: true,
+  randomTarget: (random) => randomPair(FACTOR_PAIRS, random),
+  fallbackTarget: () => ({ targetNumber: 12, secondaryTargetNumber: 18 }),
+  correctValues: ({ targetNumber, secondaryTargetNumber = targetNumber }) =>
+    factorsOf(gcd(targetNumber, secondaryTargetNumber)),
+  randomValue: ({ targetNumber, secondaryTargetNumber = targetNumber, numberRange = DEFAULT_NUMBER_RANGE }, random) => randInt(0, 1, random) === 0
+    ? randChoice([...factorsOf(targetNumber), ...factorsOf(secondaryTargetNumber)], random)
+    : randInt(numberRange.min, numberRange.max, random),
+  isCorrect: (value, { targetNumber, secondaryTargetNumber = targetNumber }) =>
+    isPositiveNumber(value) && targetNumber > 0 && secondaryTargetNumber > 0 &&
+    targetNumber % value === 0 && secondaryTargetNumber % value === 0,
+  phrase: ({ targetNumber, secondaryTargetNumber }) => `common factors of ${targetNumber} and ${secondaryTargetNumber}`,
+  describe: ({ targetNumber, secondaryTargetNumber }) => `Eat all common factors of ${targetNumber} and ${secondaryTargetNumber}`,
+  label: ({ targetNumber, secondaryTargetNumber }) => `Common Factors of ${targetNumber} & ${secondaryTargetNumber}`
+};
+
+export const commonMultiplesRule: RuleDefinition = {
+  id: 'commonMultiples',
+  usesTarget: true,
+  usesSecondaryTarget: true,
+  randomTarget: (random) => randomPair(MULTIPLE_PAIRS, random),
+  fallbackTarget: () => ({ targetNumber: 3, secondaryTargetNumber: 4 }),
+  correctValues: ({ targetNumber, secondaryTargetNumber = targetNumber, numberRange = COMMON_MULTIPLE_RANGE }) =>
+    multiplesOf(lcm(targetNumber, secondaryTargetNumber), numberRange),
+  randomValue: ({ targetNumber, secondaryTargetNumber = targetNumber, numberRange = COMMON_MULTIPLE_RANGE }, random) => randInt(0, 2, random) > 0
+    ? randChoice([
+      ...multiplesOf(targetNumber, numberRange),
+      ...multiplesOf(secondaryTargetNumber, numberRange)
+    ], random)
+    : randInt(numberRange.min, numberRange.max, random),
+  isCorrect: (value, { targetNumber, secondaryTargetNumber = targetNumber }) =>
+    isPositiveNumber(value) && targetNumber > 0 && secondaryTargetNumber > 0 &&
+    value % targetNumber === 0 && value % secondaryTargetNumber === 0,
+  phrase: ({ targetNumber, secondaryTargetNumber }) => `common multiples of ${targetNumber} and ${secondaryTargetNumber}`,
+  describe: ({ targetNumber, secondaryTargetNumber }) => `Eat all common multiples of ${targetNumber} and ${secondaryTargetNumber}`,
+  label: ({ targetNumber, secondaryTargetNumber }) => `Common Multiples of ${targetNumber} & ${secondaryTargetNumber}`
+};
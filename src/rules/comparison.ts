@@ -0,0 +1,63 @@
+import type { Random, RuleDefinition } from '../types';
+import { isNumber } from '../cellValues';
+import { numbersBetween, randInt } from '../mathUtils';
+
+// Inequality and range rules. Values cluster near the boundary so the board
+// really tests comparison rather than "big vs small".
+
+const SPREAD = 15;
+
+// Random distance from the boundary, skewed toward small distances
+function nearDistance(max: number, random: Random): number {
+  return randInt(0, randInt(0, max, random), random);
+}
+
+export const greaterThanRule: RuleDefinition = {
+  id: 'greaterThan',
+  usesTarget: true,
+  randomTarget: (random) => ({ targetNumber: randInt(15, 40, random) }),
+  fallbackTarget: () => ({ targetNumber: 20 }),
+  correctValues: ({ targetNumber }) => numbersBetween(targetNumber + 1, targetNumber + SPREAD),
+  // The boundary itself is the most useful distractor
+  randomValue: ({ targetNumber }, random) => Math.max(0, targetNumber - nearDistance(SPREAD, random)),
+  isCorrect: (value, { targetNumber }) => isNumber(value) && value > targetNumber,
+  phrase: ({ targetNumber }) => `numbers greater than ${targetNumber}`,
+  describe: ({ targetNumber }) => `Eat all numbers greater than ${targetNumber}`,
+  label: ({ targetNumber }) => `Greater than ${targetNumber}`
+};
+
+export const lessThanRule: RuleDefinition = {
+  id: 'lessThan',
+  usesTarget: true,
+  randomTarget: (random) => ({ targetNumber: randInt(10, 40, random) }),
+  fallbackTarget: () => ({ targetNumber: 20 }),
+  correctValues: ({ targetNumber }) => numbersBetween(targetNumber - SPREAD, targetNumber - 1),
+  randomValue: ({ targetNumber }, random) => targetNumber + nearDistance(SPREAD, random),
+  isCorrect: (value, { targetNumber }) => isNumber(value) && value < targetNumber,
+  phrase: ({ targetNumber }) => `numbers less than ${targetNumber}`,
+  describe: ({ targetNumber }) => `Eat all numbers less than ${targetNumber}`,
+  label: ({ targetNumber }) => `Less than ${targetNumber}`
+};
+
+// Exclusive range: targetNumber is the lower bound, secondaryTargetNumber the upper bound
+export const betweenRule: RuleDefinition = {
+  id: 'between',
+  usesTarget: true,
+  usesSecondaryTarget: true,
+  randomTarget: (random) => {
+    const low = randInt(10, 40, random);
+    return { targetNumber: low, secondaryTargetNumber: low + randInt(5, 12, random) };
+  },
+  fallbackTarget: () => ({ targetNumber: 20, secondaryTargetNumber: 30 }),
+  correctValues: ({ targetNumber, secondaryTargetNumber = targetNumber }) =>
+    numbersBetween(targetNumber + 1, secondaryTargetNumber - 1),
+  randomValue: ({ targetNumber, secondaryTargetNumber = targetNumber }, random) => randInt(0, 1, random) === 0
+    ? Math.max(0, targetNumber - nearDistance(SPREAD, random))
+    : secondaryTargetNumber + nearDistance(SPREAD, random),
+  isCorrect: (value, { targetNumber, secondaryTargetNumber = targetNumber }) =>
+    isNumber(value) && value > targetNumber && value < secondaryTargetNumber,
+  phrase: ({ targetNumber, secondaryTargetNumber }) => `numbers between ${targetNumber} and ${secondaryTargetNumber}`,
+  describe: ({ targetNumber, secondaryTargetNumber }) =>
+    `Eat all numbers between ${targetNumber} and ${secondaryTargetNumber} (not ${targetNumber} or ${secondaryTargetNumber})`,
+  label: ({ targetNumber, secondaryTargetNumber }) => `Between ${targetNumber} and ${secondaryTargetNumber}`
+};
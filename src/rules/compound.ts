@@ -0,0 +1,166 @@
+import type { CellValue, GameRule, Random, RuleDefinition, RuleExpression, RuleLeaf, RuleTarget } from '../types';
+import { formatCellValue } from '../cellValues';
+import { randChoice } from '../mathUtils';
+import { CURRENCIES } from '../currencies';
+import { PHRASE_BOOKS } from '../phrases';
+
+// Compound rules combine single rules with AND / OR / NOT. Every leaf keeps its
+// own target, so the game-level target is ignored (like primes).
+
+type RuleLookup = (rule: GameRule) => RuleDefinition | undefined;
+
+// Random values drawn from each leaf on top of its correct values
+const POOL_SAMPLES = 40;
+
+export function isRuleLeaf(expression: RuleExpression): expression is RuleLeaf {
+  return 'rule' in expression;
+}
+
+function leafTarget(leaf: RuleLeaf): RuleTarget {
+  return {
+    targetNumber: leaf.targetNumber ?? 0,
+    secondaryTargetNumber: leaf.secondaryTargetNumber,
+    currency: leaf.currency,
+    shapeProperty: leaf.shapeProperty,
+    locale: leaf.locale,
+    hidePrefixes: leaf.hidePrefixes
+  };
+}
+
+function childrenOf(expression: RuleExpression): RuleExpression[] {
+  if (isRuleLeaf(expression)) return [];
+  if ('not' in expression) return [expression.not];
+  return 'and' in expression ? expression.and : expression.or;
+}
+
+function matches(expression: RuleExpression, value: CellValue, lookup: RuleLookup): boolean {
+  if (isRuleLeaf(expression)) {
+    return lookup(expression.rule)?.isCorrect(value, leafTarget(expression)) ?? false;
+  }
+  if ('not' in expression) return !matches(expression.not, value, lookup);
+  if ('and' in expression) return expression.and.every(child => matches(child, value, lookup));
+  return expression.or.some(child => matches(child, value, lookup));
+}
+
+// Everything any leaf would put on its own board. Correct and incorrect values
+// for the whole tree are both picked from here, so distractors are near misses
+// like odd multiples of 3 for "multiples of 3 AND even numbers". Leaves without
+// a range of their own draw from the board's.
+function candidatePool(
+  expression: RuleExpression,
+  lookup: RuleLookup,
+  numberRange: RuleTarget['numberRange'],
+  random: Random
+): CellValue[] {
+  const candidates = new Map<string, CellValue>();
+  const visit = (current: RuleExpression) => {
+    if (!isRuleLeaf(current)) {
+      childrenOf(current).forEach(visit);
+      return;
+    }
+    const definition = lookup(current.rule);
+    if (!definition) return;
+    const target = { ...leafTarget(current), numberRange: current.numberRange ?? numberRange };
+    const values = [...definition.correctValues(target, random)];
+    for (let i = 0; i < POOL_SAMPLES; i++) {
+      values.push(definition.randomValue(target, random));
+    }
+    values.forEach(value => candidates.set(formatCellValue(value), value));
+  };
+  visit(expression);
+  return [...candidates.values()];
+}
+
+// === WORDING ===
+
+function isGroup(expression: RuleExpression): boolean {
+  return 'and' in expression || 'or' in expression;
+}
+
+function phraseOf(expression: RuleExpression, lookup: RuleLookup): string {
+  const grouped = (child: RuleExpression) =>
+    isGroup(child) ? `(${phraseOf(child, lookup)})` : phraseOf(child, lookup);
+
+  if (isRuleLeaf(expression)) {
+    return lookup(expression.rule)?.phrase(leafTarget(expression)) ?? expression.rule;
+  }
+  if ('not' in expression) return `numbers that are NOT ${grouped(expression.not)}`;
+  if ('or' in expression) {
+    return expression.or
+      .map(child => 'not' in child ? `NOT ${grouped(child.not)}` : grouped(child))
+      .join(' OR ');
+  }
+
+  // "factors of 24 but NOT factors of 12"
+  const included = expression.and.filter(child => !('not' in child));
+  const excluded = expression.and.flatMap(child => 'not' in child ? [child.not] : []);
+  const base = included.length > 0 ? included.map(grouped).join(' AND ') : 'numbers';
+  return [base, ...excluded.map(child => `but NOT ${grouped(child)}`)].join(' ');
+}
+
+function labelOf(expression: RuleExpression, lookup: RuleLookup): string {
+  const grouped = (child: RuleExpression) =>
+    isGroup(child) ? `(${labelOf(child, lookup)})` : labelOf(child, lookup);
+
+  if (isRuleLeaf(expression)) {
+    return lookup(expression.rule)?.label(leafTarget(expression)) ?? expression.rule;
+  }
+  if ('not' in expression) return `NOT ${grouped(expression.not)}`;
+  return 'and' in expression
+    ? expression.and.map(grouped).join(' AND ')
+    : expression.or.map(grouped).join(' OR ');
+}
+
+// === DEFINITION ===
+
+export function createCompoundRule(expression: RuleExpression, lookup: RuleLookup): RuleDefinition {
+  // Built on first use: isCorrect is called per cell and never needs the pool
+  let pool: CellValue[] | null = null;
+  const getPool = ({ numberRange }: RuleTarget, random: Random) =>
+    pool ??= candidatePool(expression, lookup, numberRange, random);
+
+  return {
+    id: 'compound',
+    usesTarget: false,
+    randomTarget: () => ({ targetNumber: 0 }),
+    fallbackTarget: () => ({ targetNumber: 0 }),
+    correctValues: (target, random) => getPool(target, random).filter(value => matches(expression, value, lookup)),
+    randomValue: (target, random) => randChoice(getPool(target, random), random),
+    isCorrect: (value) => matches(expression, value, lookup),
+    phrase: () => phraseOf(expression, lookup),
+    describe: () => `Eat all ${phraseOf(expression, lookup)}`,
+    label: () => labelOf(expression, lookup)
+  };
+}
+
+// Structural problems with a rule tree (unknown rules, missing targets, empty groups)
+export function validateRuleExpression(expression: RuleExpression, lookup: RuleLookup): string[] {
+  if (isRuleLeaf(expression)) {
+    const definition = lookup(expression.rule);
+    if (!definition) return [`Unknown rule '${expression.rule}'`];
+
+    const errors: string[] = [];
+    if (definition.usesTarget && expression.targetNumber === undefined) {
+      errors.push(`Rule '${expression.rule}' requires a targetNumber`);
+    }
+    if (definition.usesSecondaryTarget && expression.secondaryTargetNumber === undefined) {
+      errors.push(`Rule '${expression.rule}' requires a secondaryTargetNumber`);
+    }
+    if (expression.currency !== undefined && !CURRENCIES[expression.currency]) {
+      errors.push(`Unknown currency '${expression.currency}'`);
+    }
+    if (expression.locale !== undefined && !PHRASE_BOOKS[expression.locale]) {
+      errors.push(`Unknown locale '${expression.locale}'`);
+    }
+    return errors;
+  }
+
+  const errors: string[] = [];
+  if ('and' in expression && expression.and.length < 2) {
+    errors.push('AND rules need at least two parts');
+  }
+  if ('or' in expression && expression.or.length < 2) {
+    errors.push('OR rules need at least two parts');
+  }
+  return [...errors, ...childrenOf(expression).flatMap(child => validateRuleExpression(child, lookup))];
+}
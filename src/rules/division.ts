@@ -0,0 +1,41 @@
+import type { CellValue, Random, RuleDefinition } from '../types';
+import type { ExpressionNode } from '../expressionParser';
+import { binary, formatExpression } from '../expressionParser';
+import { randInt } from '../mathUtils';
+import { formatMatching, isExpressionFor, wrongOperationDistractors } from './expressionRule';
+
+// Every "a÷b" problem with a divisor from 2-10 whose quotient is targetNumber
+export function divisionProblems(targetNumber: number): string[] {
+  const candidates: ExpressionNode[] = [];
+  if (targetNumber > 0) {
+    for (let b = 2; b <= 10; b++) {
+      candidates.push(binary('÷', targetNumber * b, b));
+    }
+  }
+  return formatMatching(candidates, targetNumber);
+}
+
+// Always divides evenly so distractors never show a fractional answer
+export function randomDivisionProblem(random: Random): string {
+  const b = randInt(2, 10, random);
+  const quotient = randInt(1, 12, random);
+  return formatExpression(binary('÷', quotient * b, b));
+}
+
+export function isDivisionProblemFor(value: CellValue, targetNumber: number): boolean {
+  return isExpressionFor(value, targetNumber, ['÷']);
+}
+
+export const divisionRule: RuleDefinition = {
+  id: 'division',
+  usesTarget: true,
+  randomTarget: (random) => ({ targetNumber: randInt(2, 10, random) }),
+  fallbackTarget: (random) => ({ targetNumber: randInt(3, 8, random) }),
+  correctValues: ({ targetNumber }) => divisionProblems(targetNumber),
+  randomValue: (_, random) => randomDivisionProblem(random),
+  isCorrect: (value, { targetNumber }) => isDivisionProblemFor(value, targetNumber),
+  phrase: ({ targetNumber }) => `quotients equal to ${targetNumber}`,
+  describe: ({ targetNumber }) => `Find all quotients that equal ${targetNumber}`,
+  label: ({ targetNumber }) => `Division = ${targetNumber}`,
+  misconceptions: ({ targetNumber }) => wrongOperationDistractors(divisionProblems(targetNumber), targetNumber, '×')
+};
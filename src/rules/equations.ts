@@ -0,0 +1,66 @@
+import type { CellValue, Random, RuleDefinition } from '../types';
+import type { Equation } from '../expressionParser';
+import { EPSILON, binary, formatEquation, num, parseEquation, solveEquation, variable } from '../expressionParser';
+import { randChoice, randInt } from '../mathUtils';
+
+// Solve-for-x: a cell like "x+3=10" is correct when x equals targetNumber
+
+const CANDIDATE_COUNT = 200;
+
+// One random equation whose solution is the given whole number. The unknown
+// moves around (x+3, 3+x, 10-x) and every operation gets a turn.
+export function randomEquation(solution: number, random: Random): string {
+  const x = variable();
+  const forms: Equation[] = [];
+
+  const addend = randInt(1, 12, random);
+  forms.push({ left: binary('+', x, addend), right: num(solution + addend) });
+  forms.push({ left: binary('+', addend, x), right: num(solution + addend) });
+
+  const subtrahend = randInt(1, 9, random);
+  if (solution - subtrahend >= 0) {
+    forms.push({ left: binary('-', x, subtrahend), right: num(solution - subtrahend) });
+  }
+  forms.push({ left: binary('-', solution + subtrahend, x), right: num(subtrahend) });
+
+  const factor = randInt(2, 9, random);
+  forms.push({ left: binary('×', factor, x), right: num(factor * solution) });
+
+  const divisors = [2, 3, 4, 5].filter(d => solution % d === 0);
+  if (divisors.length > 0) {
+    const divisor = randChoice(divisors, random);
+    forms.push({ left: binary('÷', x, divisor), right: num(solution / divisor) });
+  }
+
+  return formatEquation(randChoice(forms, random));
+}
+
+export function isEquationFor(value: CellValue, targetNumber: number): boolean {
+  if (typeof value !== 'string') return false;
+  const equation = parseEquation(value);
+  const solution = equation ? solveEquation(equation) : null;
+  return solution !== null && Math.abs(solution - targetNumber) < EPSILON;
+}
+
+export const equationsRule: RuleDefinition = {
+  id: 'equations',
+  usesTarget: true,
+  randomTarget: (random) => ({ targetNumber: randInt(3, 15, random) }),
+  fallbackTarget: () => ({ targetNumber: 7 }),
+  correctValues: ({ targetNumber }, random) => {
+    const values = new Set<string>();
+    for (let i = 0; i < CANDIDATE_COUNT; i++) {
+      values.add(randomEquation(targetNumber, random));
+    }
+    return [...values];
+  },
+  // Mostly off by one, the classic slip when undoing the operation
+  randomValue: ({ targetNumber }, random) => {
+    const offset = randInt(0, 3, random) > 0 ? randChoice([-1, 1], random) : randChoice([-3, -2, 2, 3], random);
+    return randomEquation(Math.max(0, targetNumber + offset), random);
+  },
+  isCorrect: (value, { targetNumber }) => isEquationFor(value, targetNumber),
+  phrase: ({ targetNumber }) => `equations where x = ${targetNumber}`,
+  describe: ({ targetNumber }) => `Eat all equations where x = ${targetNumber}`,
+  label: ({ targetNumber }) => `Solve for x = ${targetNumber}`
+};
@@ -0,0 +1,53 @@
+import type { CellValue, Distractor } from '../types';
+import type { ExpressionNode, Operator } from '../expressionParser';
+import { EPSILON, binary, evaluate, formatExpression, operatorsIn, parseExpression } from '../expressionParser';
+
+// Shared helpers for rules whose cells hold arithmetic expressions
+
+// A cell matches when it parses, uses at least one operator, uses only the
+// allowed operators, and evaluates to targetNumber
+export function isExpressionFor(
+  value: CellValue,
+  targetNumber: number,
+  allowedOperators: readonly Operator[]
+): boolean {
+  if (typeof value !== 'string') return false;
+  const node = parseExpression(value);
+  if (!node) return false;
+
+  const operators = operatorsIn(node);
+  if (operators.size === 0) return false;
+  for (const operator of operators) {
+    if (!allowedOperators.includes(operator)) return false;
+  }
+
+  const result = evaluate(node);
+  return result !== null && Math.abs(result - targetNumber) < EPSILON;
+}
+
+// Format the candidate trees that evaluate to targetNumber, without duplicates
+export function formatMatching(nodes: ExpressionNode[], targetNumber: number): string[] {
+  const values = new Set<string>();
+  for (const node of nodes) {
+    const result = evaluate(node);
+    if (result !== null && Math.abs(result - targetNumber) < EPSILON) {
+      values.add(formatExpression(node));
+    }
+  }
+  return [...values];
+}
+
+// Each correct problem rewritten with the operator a player might confuse it
+// with, so the numbers still "work" for them: "7+3" among differences equal to 4.
+// Rewrites that still give targetNumber ("4+0" for "4-0") are not mistakes, and
+// negative ones ("3-9") are left to the levels that teach them.
+export function wrongOperationDistractors(correctValues: string[], targetNumber: number, wrongOperator: Operator): Distractor[] {
+  return correctValues.flatMap(value => {
+    const node = parseExpression(value);
+    if (!node || node.kind !== 'binary') return [];
+    const rewritten = binary(wrongOperator, node.left, node.right);
+    const result = evaluate(rewritten);
+    if (result === null || result < 0 || Math.abs(result - targetNumber) < EPSILON) return [];
+    return [{ value: formatExpression(rewritten), misconception: 'wrongOperation' as const }];
+  });
+}
@@ -0,0 +1,48 @@
+import type { Random, RuleDefinition } from '../types';
+import type { ExpressionNode, Operator } from '../expressionParser';
+import { binary, formatExpression, negate, num } from '../expressionParser';
+import { randChoice, randInt } from '../mathUtils';
+import { formatMatching, isExpressionFor } from './expressionRule';
+
+const OPERATORS: Operator[] = ['+', '-', '×'];
+
+// How many random trees to sample when looking for ones that hit the target
+const SAMPLE_COUNT = 2000;
+
+// Random multi-term expression such as "3+4-2", "2×(3+1)" or "-3+8"
+function randomExpressionTree(random: Random): ExpressionNode {
+  const operandCount = randInt(3, 4, random);
+  let node: ExpressionNode = num(randInt(1, 10, random));
+  if (randInt(0, 5, random) === 0) {
+    node = negate(node); // Leading negative like "-3+8"
+  }
+
+  for (let i = 1; i < operandCount; i++) {
+    const operator = randChoice(OPERATORS, random);
+    const operand = num(randInt(1, 10, random));
+    // Putting the work so far on the right produces parenthesised forms like "2×(3+1)"
+    node = randInt(0, 2, random) === 0 ? binary(operator, operand, node) : binary(operator, node, operand);
+  }
+
+  return node;
+}
+
+// Multi-term expressions with order of operations and parentheses
+export const expressionsRule: RuleDefinition = {
+  id: 'expressions',
+  usesTarget: true,
+  randomTarget: (random) => ({ targetNumber: randInt(10, 24, random) }),
+  fallbackTarget: (random) => ({ targetNumber: randInt(10, 20, random) }),
+  correctValues: ({ targetNumber }, random) => {
+    const samples: ExpressionNode[] = [];
+    for (let i = 0; i < SAMPLE_COUNT; i++) {
+      samples.push(randomExpressionTree(random));
+    }
+    return formatMatching(samples, targetNumber);
+  },
+  randomValue: (_, random) => formatExpression(randomExpressionTree(random)),
+  isCorrect: (value, { targetNumber }) => isExpressionFor(value, targetNumber, ['+', '-', '×', '÷']),
+  phrase: ({ targetNumber }) => `expressions equal to ${targetNumber}`,
+  describe: ({ targetNumber }) => `Find all expressions equal to ${targetNumber}`,
+  label: ({ targetNumber }) => `Expressions = ${targetNumber}`
+};
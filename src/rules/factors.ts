@@ -0,0 +1,43 @@
+import type { Distractor, RuleDefinition } from '../types';
+import { DEFAULT_NUMBER_RANGE, randChoice, randInt } from '../mathUtils';
+
+// Numbers with many factors make the game more interesting
+const NUMBERS_WITH_MANY_FACTORS = [12, 18, 20, 24, 30, 36];
+
+export function factorsOf(n: number): number[] {
+  const values: number[] = [];
+  if (n > 0) {
+    for (let i = 1; i <= n; i++) {
+      if (n % i === 0) {
+        values.push(i);
+      }
+    }
+  }
+  return values;
+}
+
+// Factors of the numbers either side of the target (7 is a factor of 14, not
+// 12), and small multiples of the target mistaken for its factors
+function factorsMisconceptions(targetNumber: number): Distractor[] {
+  const nearby: Distractor[] = [targetNumber - 2, targetNumber - 1, targetNumber + 1, targetNumber + 2]
+    .flatMap(neighbour => factorsOf(neighbour).filter(factor => factor > 1 && factor < neighbour))
+    .map(factor => ({ value: factor, misconception: 'nearbyFactor' }));
+  const multiples: Distractor[] = [2, 3, 4]
+    .map(times => ({ value: targetNumber * times, misconception: 'factorMultipleMix' }));
+  return [...nearby, ...multiples];
+}
+
+export const factorsRule: RuleDefinition = {
+  id: 'factors',
+  usesTarget: true,
+  randomTarget: (random) => ({ targetNumber: randChoice(NUMBERS_WITH_MANY_FACTORS, random) }),
+  fallbackTarget: (random) => ({ targetNumber: randChoice(NUMBERS_WITH_MANY_FACTORS, random) }),
+  correctValues: ({ targetNumber }) => factorsOf(targetNumber),
+  randomValue: ({ numberRange = DEFAULT_NUMBER_RANGE }, random) => randInt(numberRange.min, numberRange.max, random),
+  isCorrect: (value, { targetNumber }) =>
+    typeof value === 'number' && targetNumber > 0 && value > 0 && targetNumber % value === 0,
+  phrase: ({ targetNumber }) => `factors of ${targetNumber}`,
+  describe: ({ targetNumber }) => `Eat all factors of ${targetNumber}`,
+  label: ({ targetNumber }) => `Factors of ${targetNumber}`,
+  misconceptions: ({ targetNumber }) => factorsMisconceptions(targetNumber)
+};
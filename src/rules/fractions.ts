@@ -0,0 +1,59 @@
+import type { CellValue, FractionValue, Random, RuleDefinition } from '../types';
+import { fraction, isFraction } from '../cellValues';
+import { randChoice, randInt, toFraction } from '../mathUtils';
+
+// Target fractions, stored as their decimal value in targetNumber
+const TARGET_FRACTIONS = [1 / 2, 1 / 3, 2 / 3, 1 / 4, 3 / 4, 2 / 5, 3 / 5];
+
+const MAX_DENOMINATOR = 20;
+
+// Every way of writing targetNumber as a fraction with a denominator up to 20
+function equivalentFractions(targetNumber: number): FractionValue[] {
+  const { numerator, denominator } = toFraction(targetNumber);
+  const values: FractionValue[] = [];
+  for (let k = 1; denominator * k <= MAX_DENOMINATOR; k++) {
+    values.push(fraction(numerator * k, denominator * k));
+  }
+  return values;
+}
+
+// Near miss: nudge the numerator or denominator of an equivalent fraction (2/4 -> 2/5, 3/6 -> 3/5)
+function nearMissFraction(targetNumber: number, random: Random): FractionValue {
+  const base = randChoice(equivalentFractions(targetNumber), random);
+  const delta = randChoice([-1, 1], random);
+  // Clamp so the result stays a proper fraction
+  if (randInt(0, 1, random) === 0) {
+    return fraction(Math.min(base.denominator - 1, Math.max(1, base.numerator + delta)), base.denominator);
+  }
+  return fraction(base.numerator, Math.max(base.numerator + 1, base.denominator + delta));
+}
+
+function randomProperFraction(random: Random): FractionValue {
+  const denominator = randInt(2, 12, random);
+  return fraction(randInt(1, denominator - 1, random), denominator);
+}
+
+function isEquivalentFraction(value: CellValue, targetNumber: number): boolean {
+  if (!isFraction(value) || value.denominator === 0) return false;
+  const target = toFraction(targetNumber);
+  // Cross-multiply so no floating point division is involved
+  return value.numerator * target.denominator === target.numerator * value.denominator;
+}
+
+function formatTarget(targetNumber: number): string {
+  const { numerator, denominator } = toFraction(targetNumber);
+  return `${numerator}/${denominator}`;
+}
+
+export const fractionsRule: RuleDefinition = {
+  id: 'fractions',
+  usesTarget: true,
+  randomTarget: (random) => ({ targetNumber: randChoice(TARGET_FRACTIONS, random) }),
+  fallbackTarget: () => ({ targetNumber: 1 / 2 }),
+  correctValues: ({ targetNumber }) => equivalentFractions(targetNumber),
+  randomValue: ({ targetNumber }, random) => randInt(0, 3, random) === 0 ? randomProperFraction(random) : nearMissFraction(targetNumber, random),
+  isCorrect: (value, { targetNumber }) => isEquivalentFraction(value, targetNumber),
+  phrase: ({ targetNumber }) => `fractions equal to ${formatTarget(targetNumber)}`,
+  describe: ({ targetNumber }) => `Eat all fractions equal to ${formatTarget(targetNumber)}`,
+  label: ({ targetNumber }) => `Equivalent to ${formatTarget(targetNumber)}`
+};
@@ -0,0 +1,107 @@
+import type { CellValue, GameRule, RuleDefinition, RuleSpec, RuleTarget } from '../types';
+import { createRandom } from '../mathUtils';
+import { multiplesRule } from './multiples';
+import { factorsRule } from './factors';
+import { primesRule } from './primes';
+import { additionRule } from './addition';
+import { subtractionRule } from './subtraction';
+import { mixedRule } from './mixed';
+import { multiplicationRule } from './multiplication';
+import { divisionRule } from './division';
+import { mixedAllRule } from './mixedAll';
+import { expressionsRule } from './expressions';
+import { fractionsRule } from './fractions';
+import { betweenRule, greaterThanRule, lessThanRule } from './comparison';
+import {
+  compositeRule,
+  evenRule,
+  fibonacciRule,
+  oddRule,
+  perfectCubesRule,
+  perfectSquaresRule,
+  triangularRule
+} from './properties';
+import { commonFactorsRule, commonMultiplesRule } from './common';
+import { placeValueRule, roundingRule } from './placeValue';
+import { equationsRule } from './equations';
+import { absoluteValueRule, integersRule, negativesRule } from './integers';
+import { powersOfRule, powersRule } from './powers';
+import { percentagesRule } from './percentages';
+import { moneyRule } from './money';
+import { timeRule } from './time';
+import { shapesRule } from './shapes';
+import { wordsRule } from './words';
+import { basesRule } from './bases';
+import { romanRule } from './roman';
+import { createCompoundRule, validateRuleExpression } from './compound';
+
+// === RULE REGISTRY ===
+// Adding a rule means writing one module in this directory and registering it here.
+
+export const RULES: Record<GameRule, RuleDefinition> = {
+  multiples: multiplesRule,
+  factors: factorsRule,
+  primes: primesRule,
+  addition: additionRule,
+  subtraction: subtractionRule,
+  mixed: mixedRule,
+  multiplication: multiplicationRule,
+  division: divisionRule,
+  mixedAll: mixedAllRule,
+  expressions: expressionsRule,
+  fractions: fractionsRule,
+  greaterThan: greaterThanRule,
+  lessThan: lessThanRule,
+  between: betweenRule,
+  even: evenRule,
+  odd: oddRule,
+  perfectSquares: perfectSquaresRule,
+  perfectCubes: perfectCubesRule,
+  triangular: triangularRule,
+  fibonacci: fibonacciRule,
+  composite: compositeRule,
+  commonFactors: commonFactorsRule,
+  commonMultiples: commonMultiplesRule,
+  rounding: roundingRule,
+  placeValue: placeValueRule,
+  equations: equationsRule,
+  integers: integersRule,
+  negatives: negativesRule,
+  absoluteValue: absoluteValueRule,
+  powers: powersRule,
+  powersOf: powersOfRule,
+  percentages: percentagesRule,
+  money: moneyRule,
+  time: timeRule,
+  shapes: shapesRule,
+  words: wordsRule,
+  bases: basesRule,
+  roman: romanRule
+};
+
+// The fewest correct values a rule must offer for generateGrid to use it
+export const MIN_CORRECT_VALUES = 3;
+
+const lookupRule = (rule: GameRule): RuleDefinition | undefined => RULES[rule];
+
+export function getRule(rule: RuleSpec): RuleDefinition {
+  return typeof rule === 'string' ? RULES[rule] : createCompoundRule(rule, lookupRule);
+}
+
+// Single source of truth for "is this cell correct?"
+export function isCorrectValue(rule: RuleSpec, value: CellValue, target: RuleTarget): boolean {
+  return getRule(rule).isCorrect(value, target);
+}
+
+// Problems that would stop a level's rule from producing a playable board
+export function validateRule(rule: RuleSpec, target: Partial<RuleTarget>): string[] {
+  const expression = typeof rule === 'string' ? { rule, ...target } : rule;
+  const errors = validateRuleExpression(expression, lookupRule);
+  if (errors.length > 0) return errors;
+
+  // A fixed seed, so a rule that picks values at random validates the same every time
+  if (getRule(expression).correctValues({ targetNumber: 0 }, createRandom(0)).length < MIN_CORRECT_VALUES) {
+    errors.push(`Rule has fewer than ${MIN_CORRECT_VALUES} correct values`);
+  }
+  return errors;
+}
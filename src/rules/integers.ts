@@ -0,0 +1,120 @@
+import type { CellValue, Random, RuleDefinition } from '../types';
+import type { ExpressionNode } from '../expressionParser';
+import { EPSILON, abs, binary, evaluate, formatExpression, negate, parseExpression } from '../expressionParser';
+import { randChoice, randInt } from '../mathUtils';
+import { formatMatching, isExpressionFor } from './expressionRule';
+
+// Integer rules: the only rules whose boards are meant to show negative numbers
+
+const OPERAND_RANGE = 10;
+
+function isNegativeNode(node: ExpressionNode): boolean {
+  const value = evaluate(node);
+  return value !== null && value < 0;
+}
+
+// === SIGNED SUMS AND DIFFERENCES ===
+
+// Every "a+b" and "a-b" with operands from -10 to 10 that equals targetNumber
+// and has a negative number somewhere (an operand or the answer)
+export function signedProblems(targetNumber: number): string[] {
+  const candidates: ExpressionNode[] = [];
+  for (let a = -OPERAND_RANGE; a <= OPERAND_RANGE; a++) {
+    for (let b = -OPERAND_RANGE; b <= OPERAND_RANGE; b++) {
+      for (const operator of ['+', '-'] as const) {
+        const node = binary(operator, a, b);
+        if (a < 0 || b < 0 || isNegativeNode(node)) {
+          candidates.push(node);
+        }
+      }
+    }
+  }
+  return formatMatching(candidates, targetNumber);
+}
+
+// Half the time the answer has the wrong sign, the most common integer slip
+export function randomSignedProblem(targetNumber: number, random: Random): string {
+  const a = randInt(-OPERAND_RANGE, OPERAND_RANGE, random);
+  const operator = randChoice(['+', '-'] as const, random);
+  if (randInt(0, 1, random) === 0) {
+    return formatExpression(binary(operator, a, randInt(-OPERAND_RANGE, OPERAND_RANGE, random)));
+  }
+  const b = operator === '+' ? -targetNumber - a : a + targetNumber;
+  return formatExpression(binary(operator, a, b));
+}
+
+export const integersRule: RuleDefinition = {
+  id: 'integers',
+  usesTarget: true,
+  randomTarget: (random) => ({ targetNumber: randInt(-10, 10, random) }),
+  fallbackTarget: () => ({ targetNumber: -3 }),
+  correctValues: ({ targetNumber }) => signedProblems(targetNumber),
+  randomValue: ({ targetNumber }, random) => randomSignedProblem(targetNumber, random),
+  isCorrect: (value, { targetNumber }) => isExpressionFor(value, targetNumber, ['+', '-']),
+  phrase: ({ targetNumber }) => `sums and differences equal to ${targetNumber}`,
+  describe: ({ targetNumber }) => `Find all sums and differences that equal ${targetNumber}`,
+  label: ({ targetNumber }) => `Integers = ${targetNumber}`
+};
+
+// === NEGATIVE NUMBERS ===
+
+const NEGATIVE_RANGE = 20;
+
+export const negativesRule: RuleDefinition = {
+  id: 'negatives',
+  usesTarget: false,
+  randomTarget: () => ({ targetNumber: 0 }),
+  fallbackTarget: () => ({ targetNumber: 0 }),
+  correctValues: () => Array.from({ length: NEGATIVE_RANGE }, (_, i) => -(i + 1)),
+  // Zero and the positive twins of the targets
+  randomValue: (_, random) => randInt(0, NEGATIVE_RANGE, random),
+  isCorrect: (value) => typeof value === 'number' && value < 0,
+  phrase: () => 'negative numbers',
+  describe: () => 'Eat all negative numbers',
+  label: () => 'Negative Numbers'
+};
+
+// === ABSOLUTE VALUE ===
+// Cells like "|-7|" or "|3-10|"; targetNumber is the (positive) value they should equal
+
+export function absoluteValueProblems(targetNumber: number): string[] {
+  const candidates: ExpressionNode[] = [abs(targetNumber), abs(-targetNumber)];
+  for (let a = 0; a <= 2 * OPERAND_RANGE; a++) {
+    for (let b = 0; b <= 2 * OPERAND_RANGE; b++) {
+      candidates.push(abs(binary('-', a, b)));
+    }
+  }
+  return formatMatching(candidates, targetNumber);
+}
+
+// Off by one, or the right number with the sign put back outside: "-|-7|"
+export function randomAbsoluteValueProblem(targetNumber: number, random: Random): string {
+  if (randInt(0, 3, random) === 0) {
+    return formatExpression(negate(abs(-targetNumber)));
+  }
+  const difference = targetNumber + randChoice([-1, 1], random);
+  const a = randInt(0, 2 * OPERAND_RANGE, random);
+  const b = randInt(0, 1, random) === 0 && a >= difference ? a - difference : a + difference;
+  return formatExpression(abs(binary('-', a, b)));
+}
+
+export function isAbsoluteValueFor(value: CellValue, targetNumber: number): boolean {
+  if (typeof value !== 'string') return false;
+  const node = parseExpression(value);
+  if (node?.kind !== 'abs') return false;
+  const result = evaluate(node);
+  return result !== null && Math.abs(result - targetNumber) < EPSILON;
+}
+
+export const absoluteValueRule: RuleDefinition = {
+  id: 'absoluteValue',
+  usesTarget: true,
+  randomTarget: (random) => ({ targetNumber: randInt(2, 12, random) }),
+  fallbackTarget: () => ({ targetNumber: 7 }),
+  correctValues: ({ targetNumber }) => absoluteValueProblems(targetNumber),
+  randomValue: ({ targetNumber }, random) => randomAbsoluteValueProblem(targetNumber, random),
+  isCorrect: (value, { targetNumber }) => isAbsoluteValueFor(value, targetNumber),
+  phrase: ({ targetNumber }) => `absolute values equal to ${targetNumber}`,
+  describe: ({ targetNumber }) => `Eat all absolute values equal to ${targetNumber}`,
+  label: ({ targetNumber }) => `Absolute Value = ${targetNumber}`
+};
@@ -0,0 +1,22 @@
+import type { RuleDefinition } from '../types';
+import { randInt } from '../mathUtils';
+import { additionProblems, randomAdditionProblem } from './addition';
+import { randomSubtractionProblem, subtractionProblems } from './subtraction';
+import { isExpressionFor } from './expressionRule';
+
+// Addition and subtraction problems on the same board
+export const mixedRule: RuleDefinition = {
+  id: 'mixed',
+  usesTarget: true,
+  randomTarget: (random) => ({ targetNumber: randInt(5, 15, random) }),
+  fallbackTarget: (random) => ({ targetNumber: randInt(5, 12, random) }),
+  correctValues: ({ targetNumber }) => [
+    ...additionProblems(targetNumber),
+    ...subtractionProblems(targetNumber)
+  ],
+  randomValue: (_, random) => randInt(0, 1, random) === 0 ? randomAdditionProblem(random) : randomSubtractionProblem(random),
+  isCorrect: (value, { targetNumber }) => isExpressionFor(value, targetNumber, ['+', '-']),
+  phrase: ({ targetNumber }) => `addition and subtraction problems equal to ${targetNumber}`,
+  describe: ({ targetNumber }) => `Find all addition and subtraction problems that equal ${targetNumber}`,
+  label: ({ targetNumber }) => `Mixed Operations = ${targetNumber}`
+};
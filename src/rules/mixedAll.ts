@@ -0,0 +1,33 @@
+import type { RuleDefinition } from '../types';
+import { randChoice, randInt } from '../mathUtils';
+import { additionProblems, randomAdditionProblem } from './addition';
+import { randomSubtractionProblem, subtractionProblems } from './subtraction';
+import { multiplicationProblems, randomMultiplicationProblem } from './multiplication';
+import { divisionProblems, randomDivisionProblem } from './division';
+import { isExpressionFor } from './expressionRule';
+
+const RANDOM_PROBLEMS = [
+  randomAdditionProblem,
+  randomSubtractionProblem,
+  randomMultiplicationProblem,
+  randomDivisionProblem
+];
+
+// All four operators on the same board
+export const mixedAllRule: RuleDefinition = {
+  id: 'mixedAll',
+  usesTarget: true,
+  randomTarget: (random) => ({ targetNumber: randInt(6, 12, random) }),
+  fallbackTarget: (random) => ({ targetNumber: randInt(6, 12, random) }),
+  correctValues: ({ targetNumber }) => [
+    ...additionProblems(targetNumber),
+    ...subtractionProblems(targetNumber),
+    ...multiplicationProblems(targetNumber),
+    ...divisionProblems(targetNumber)
+  ],
+  randomValue: (_, random) => randChoice(RANDOM_PROBLEMS, random)(random),
+  isCorrect: (value, { targetNumber }) => isExpressionFor(value, targetNumber, ['+', '-', '×', '÷']),
+  phrase: ({ targetNumber }) => `+, −, × and ÷ problems equal to ${targetNumber}`,
+  describe: ({ targetNumber }) => `Find all +, −, × and ÷ problems that equal ${targetNumber}`,
+  label: ({ targetNumber }) => `All Operations = ${targetNumber}`
+};
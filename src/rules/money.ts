@@ -0,0 +1,85 @@
+import type { CoinsValue, Currency, Random, RuleDefinition } from '../types';
+import { coins, isCoins } from '../cellValues';
+import { coinsTotal, formatAmount, getCurrency } from '../currencies';
+import { randChoice, randInt } from '../mathUtils';
+
+// Coin combinations: each cell is a small pile of coins and bills, correct when
+// it adds up to targetNumber (in cents, pence, ...). target.currency picks the coins.
+
+// More coins than this gets hard to read in one cell
+const MAX_COINS = 6;
+
+const TARGET_AMOUNTS = [30, 35, 40, 45, 50, 55, 60, 65, 70, 75, 80, 85, 90];
+
+// Largest denomination first, so every pile is listed the same way
+function sortedDenominations(currency: Currency) {
+  return [...currency.denominations].sort((a, b) => b.value - a.value);
+}
+
+function fromCounts(currency: Currency, counts: Map<string, number>): CoinsValue {
+  const entries = sortedDenominations(currency)
+    .filter(denomination => (counts.get(denomination.id) ?? 0) > 0)
+    .map(denomination => ({ denomination: denomination.id, count: counts.get(denomination.id) ?? 0 }));
+  return coins(currency.id, entries);
+}
+
+// Every pile of at most MAX_COINS coins and bills worth exactly amount
+export function coinCombinations(amount: number, currency: Currency): CoinsValue[] {
+  const denominations = sortedDenominations(currency);
+  const results: CoinsValue[] = [];
+
+  const visit = (index: number, remaining: number, coinsLeft: number, picked: CoinsValue['coins']) => {
+    if (remaining === 0) {
+      results.push(coins(currency.id, picked));
+      return;
+    }
+    if (index >= denominations.length || coinsLeft === 0) return;
+
+    const denomination = denominations[index];
+    const maxCount = Math.min(coinsLeft, Math.floor(remaining / denomination.value));
+    for (let count = maxCount; count >= 0; count--) {
+      const next = count > 0 ? [...picked, { denomination: denomination.id, count }] : picked;
+      visit(index + 1, remaining - count * denomination.value, coinsLeft - count, next);
+    }
+  };
+
+  if (amount > 0) visit(0, amount, MAX_COINS, []);
+  return results;
+}
+
+// Swap one coin for the next size up or down: the nickel-for-a-dime mix-up
+function swapOneCoin(value: CoinsValue, currency: Currency, random: Random): CoinsValue {
+  const denominations = sortedDenominations(currency);
+  const { denomination } = randChoice(value.coins, random);
+  const index = denominations.findIndex(d => d.id === denomination);
+  const neighbour = denominations[index + randChoice([-1, 1], random)] ?? denominations[index === 0 ? 1 : index - 1];
+
+  const counts = new Map(value.coins.map(entry => [entry.denomination, entry.count]));
+  counts.set(denomination, (counts.get(denomination) ?? 0) - 1);
+  counts.set(neighbour.id, (counts.get(neighbour.id) ?? 0) + 1);
+  return fromCounts(currency, counts);
+}
+
+export function randomCoinDistractor(amount: number, currency: Currency, random: Random): CoinsValue {
+  const correct = coinCombinations(amount, currency);
+  if (correct.length > 0 && randInt(0, 1, random) === 0) {
+    return swapOneCoin(randChoice(correct, random), currency, random);
+  }
+  // A pile that is a few coins off
+  const nearby = coinCombinations(amount + randChoice([-10, -5, -1, 1, 5, 10], random), currency);
+  return nearby.length > 0 ? randChoice(nearby, random) : swapOneCoin(randChoice(correct, random), currency, random);
+}
+
+export const moneyRule: RuleDefinition = {
+  id: 'money',
+  usesTarget: true,
+  randomTarget: (random) => ({ targetNumber: randChoice(TARGET_AMOUNTS, random) }),
+  fallbackTarget: () => ({ targetNumber: 50 }),
+  correctValues: ({ targetNumber, currency }) => coinCombinations(targetNumber, getCurrency(currency)),
+  randomValue: ({ targetNumber, currency }, random) => randomCoinDistractor(targetNumber, getCurrency(currency), random),
+  isCorrect: (value, { targetNumber, currency }) =>
+    isCoins(value) && value.currency === getCurrency(currency).id && coinsTotal(value) === targetNumber,
+  phrase: ({ targetNumber, currency }) => `coin combinations worth ${formatAmount(targetNumber, getCurrency(currency))}`,
+  describe: ({ targetNumber, currency }) => `Eat all coin combinations worth ${formatAmount(targetNumber, getCurrency(currency))}`,
+  label: ({ targetNumber, currency }) => `Money = ${formatAmount(targetNumber, getCurrency(currency))}`
+};
@@ -0,0 +1,46 @@
+import type { Distractor, RuleDefinition, RuleTarget } from '../types';
+import { DEFAULT_NUMBER_RANGE, randInt } from '../mathUtils';
+import { factorsOf } from './factors';
+
+// Generate up to 25 multiples of n that fit in the range, from its low end up
+export function multiplesOf(n: number, range = DEFAULT_NUMBER_RANGE): number[] {
+  const values: number[] = [];
+  if (n > 0) {
+    const first = Math.max(1, Math.ceil(Math.max(range.min, 2) / n));
+    for (let i = first; i < first + 25; i++) {
+      const multiple = n * i;
+      if (multiple <= range.max) {
+        values.push(multiple);
+      }
+    }
+  }
+  return values;
+}
+
+// One either side of each multiple (20 and 22 for multiples of 7), and the
+// target's own factors mistaken for its multiples
+function multiplesMisconceptions({ targetNumber, numberRange }: RuleTarget): Distractor[] {
+  const offByOne: Distractor[] = multiplesOf(targetNumber, numberRange).flatMap(multiple => [
+    { value: multiple - 1, misconception: 'offByOne' },
+    { value: multiple + 1, misconception: 'offByOne' }
+  ]);
+  const factors: Distractor[] = factorsOf(targetNumber)
+    .filter(factor => factor > 1 && factor < targetNumber)
+    .map(factor => ({ value: factor, misconception: 'factorMultipleMix' }));
+  return [...offByOne, ...factors];
+}
+
+export const multiplesRule: RuleDefinition = {
+  id: 'multiples',
+  usesTarget: true,
+  randomTarget: (random) => ({ targetNumber: randInt(2, 12, random) }),
+  fallbackTarget: (random) => ({ targetNumber: randInt(3, 8, random) }), // Use smaller numbers for multiples
+  correctValues: ({ targetNumber, numberRange }) => multiplesOf(targetNumber, numberRange),
+  randomValue: ({ numberRange = DEFAULT_NUMBER_RANGE }, random) => randInt(numberRange.min, numberRange.max, random),
+  isCorrect: (value, { targetNumber }) =>
+    typeof value === 'number' && targetNumber > 0 && value % targetNumber === 0,
+  phrase: ({ targetNumber }) => `multiples of ${targetNumber}`,
+  describe: ({ targetNumber }) => `Eat all multiples of ${targetNumber}`,
+  label: ({ targetNumber }) => `Multiples of ${targetNumber}`,
+  misconceptions: multiplesMisconceptions
+};
@@ -0,0 +1,41 @@
+import type { CellValue, Random, RuleDefinition } from '../types';
+import type { ExpressionNode } from '../expressionParser';
+import { binary, formatExpression } from '../expressionParser';
+import { randChoice, randInt } from '../mathUtils';
+import { formatMatching, isExpressionFor, wrongOperationDistractors } from './expressionRule';
+
+// Products with several factor pairs inside the 1-12 times tables
+const GOOD_PRODUCTS = [12, 16, 18, 20, 24, 30, 36];
+
+// Every "a×b" problem from the 1-12 times tables that equals targetNumber
+export function multiplicationProblems(targetNumber: number): string[] {
+  const candidates: ExpressionNode[] = [];
+  for (let a = 1; a <= 12; a++) {
+    for (let b = 1; b <= 12; b++) {
+      candidates.push(binary('×', a, b));
+    }
+  }
+  return formatMatching(candidates, targetNumber);
+}
+
+export function randomMultiplicationProblem(random: Random): string {
+  return formatExpression(binary('×', randInt(2, 10, random), randInt(2, 10, random)));
+}
+
+export function isMultiplicationProblemFor(value: CellValue, targetNumber: number): boolean {
+  return isExpressionFor(value, targetNumber, ['×']);
+}
+
+export const multiplicationRule: RuleDefinition = {
+  id: 'multiplication',
+  usesTarget: true,
+  randomTarget: (random) => ({ targetNumber: randChoice(GOOD_PRODUCTS, random) }),
+  fallbackTarget: (random) => ({ targetNumber: randChoice(GOOD_PRODUCTS, random) }),
+  correctValues: ({ targetNumber }) => multiplicationProblems(targetNumber),
+  randomValue: (_, random) => randomMultiplicationProblem(random),
+  isCorrect: (value, { targetNumber }) => isMultiplicationProblemFor(value, targetNumber),
+  phrase: ({ targetNumber }) => `products equal to ${targetNumber}`,
+  describe: ({ targetNumber }) => `Find all products that equal ${targetNumber}`,
+  label: ({ targetNumber }) => `Multiplication = ${targetNumber}`,
+  misconceptions: ({ targetNumber }) => wrongOperationDistractors(multiplicationProblems(targetNumber), targetNumber, '+')
+};
@@ -0,0 +1,69 @@
+import type { CellValue, FractionValue, Random, RuleDefinition } from '../types';
+import { formatCellValue, fraction, isSameQuantity, percent, toQuantity } from '../cellValues';
+import { randChoice, randInt } from '../mathUtils';
+
+// Percent / fraction / decimal equivalence. targetNumber is the amount as a
+// decimal (0.25) and correct cells name it in any form: 25%, 1/4, 0.25, 25/100.
+// Targets must be terminating decimals so every form can be written exactly.
+
+const TARGETS = [0.1, 0.2, 0.25, 0.4, 0.5, 0.6, 0.75, 0.8];
+
+const MAX_DENOMINATOR = 20;
+
+function targetFraction(targetNumber: number): FractionValue {
+  return toQuantity(targetNumber) ?? fraction(0, 1);
+}
+
+function uniqueValues(values: CellValue[]): CellValue[] {
+  const unique = new Map<string, CellValue>();
+  values.forEach(value => unique.set(formatCellValue(value), value));
+  return [...unique.values()];
+}
+
+// Every form of the amount: percent, decimal, out of 100 and equivalent fractions
+export function equivalentForms(targetNumber: number): CellValue[] {
+  const { numerator, denominator } = targetFraction(targetNumber);
+  const percentage = numerator * 100 / denominator;
+  const values: CellValue[] = [percent(percentage), targetNumber];
+  if (Number.isInteger(percentage)) {
+    values.push(fraction(percentage, 100));
+  }
+  for (let k = 1; denominator * k <= MAX_DENOMINATOR; k++) {
+    values.push(fraction(numerator * k, denominator * k));
+  }
+  return uniqueValues(values);
+}
+
+// Look-alikes from the usual mix-ups: 25% read as 2.5% or 0.025, 25% as 1/25,
+// an upside-down fraction, or the right form of a neighbouring amount
+export function randomPercentDistractor(targetNumber: number, random: Random): CellValue {
+  const { numerator, denominator } = targetFraction(targetNumber);
+  const percentage = numerator * 100 / denominator;
+  switch (randInt(0, 5, random)) {
+    case 0:
+      return percent(percentage / 10);
+    case 1:
+      return percentage / 1000;
+    case 2:
+      return Number.isInteger(percentage) ? fraction(1, percentage) : fraction(denominator, numerator);
+    case 3:
+      return fraction(denominator, numerator);
+    case 4:
+      return percent(targetNumber);
+    default:
+      return randChoice(equivalentForms(randChoice(TARGETS.filter(target => target !== targetNumber), random)), random);
+  }
+}
+
+export const percentagesRule: RuleDefinition = {
+  id: 'percentages',
+  usesTarget: true,
+  randomTarget: (random) => ({ targetNumber: randChoice(TARGETS, random) }),
+  fallbackTarget: () => ({ targetNumber: 0.25 }),
+  correctValues: ({ targetNumber }) => equivalentForms(targetNumber),
+  randomValue: ({ targetNumber }, random) => randomPercentDistractor(targetNumber, random),
+  isCorrect: (value, { targetNumber }) => isSameQuantity(value, targetNumber),
+  phrase: ({ targetNumber }) => `values equal to ${targetNumber}`,
+  describe: ({ targetNumber }) => `Eat everything equal to ${targetNumber}`,
+  label: ({ targetNumber }) => `Equal to ${targetNumber}`
+};
@@ -0,0 +1,88 @@
+import type { RuleDefinition } from '../types';
+import { isNumber } from '../cellValues';
+import { numbersBetween, randChoice, randInt } from '../mathUtils';
+
+// Place-value rules. secondaryTargetNumber is the place (1, 10 or 100) and the
+// boards use numbers up to 999, well past the 2-50 most rules stay in.
+
+const PLACE_NAMES: Record<number, string> = { 1: 'ones', 10: 'tens', 100: 'hundreds' };
+const ROUNDING_NAMES: Record<number, string> = { 10: 'nearest ten', 100: 'nearest hundred' };
+
+const MAX_VALUE = 999;
+
+function digitAt(n: number, place: number): number {
+  return Math.floor(n / place) % 10;
+}
+
+function withDigit(n: number, place: number, digit: number): number {
+  return n + (digit - digitAt(n, place)) * place;
+}
+
+// Round half up, the way it is taught: 45 -> 50, 250 -> 300
+function roundTo(n: number, place: number): number {
+  return Math.floor(n / place + 0.5) * place;
+}
+
+// === ROUNDING ===
+// targetNumber is the rounded value, e.g. 50 for "round to 50 (nearest ten)"
+
+export const roundingRule: RuleDefinition = {
+  id: 'rounding',
+  usesTarget: true,
+  usesSecondaryTarget: true,
+  randomTarget: (random) => {
+    const place = randChoice([10, 100], random);
+    return { targetNumber: randInt(2, 9, random) * place, secondaryTargetNumber: place };
+  },
+  fallbackTarget: () => ({ targetNumber: 50, secondaryTargetNumber: 10 }),
+  correctValues: ({ targetNumber, secondaryTargetNumber = 10 }) =>
+    numbersBetween(targetNumber - secondaryTargetNumber / 2, Math.min(MAX_VALUE, targetNumber + secondaryTargetNumber / 2 - 1)),
+  // Just past either edge, e.g. 44 or 55 for "round to 50"
+  randomValue: ({ targetNumber, secondaryTargetNumber = 10 }, random) => {
+    const distance = randInt(1, secondaryTargetNumber, random);
+    return randInt(0, 1, random) === 0
+      ? Math.max(0, targetNumber - secondaryTargetNumber / 2 - distance)
+      : targetNumber + secondaryTargetNumber / 2 - 1 + distance;
+  },
+  isCorrect: (value, { targetNumber, secondaryTargetNumber = 10 }) =>
+    isNumber(value) && roundTo(value, secondaryTargetNumber) === targetNumber,
+  phrase: ({ targetNumber, secondaryTargetNumber = 10 }) =>
+    `numbers that round to ${targetNumber} (${ROUNDING_NAMES[secondaryTargetNumber]})`,
+  describe: ({ targetNumber, secondaryTargetNumber = 10 }) =>
+    `Eat all numbers that round to ${targetNumber} (${ROUNDING_NAMES[secondaryTargetNumber]})`,
+  label: ({ targetNumber, secondaryTargetNumber = 10 }) =>
+    `Rounds to ${targetNumber} (${ROUNDING_NAMES[secondaryTargetNumber]})`
+};
+
+// === PLACE VALUE ===
+// targetNumber is the digit, e.g. 7 for "numbers with 7 in the tens place"
+
+function placeValueMax(place: number): number {
+  return place === 1 ? 99 : MAX_VALUE;
+}
+
+export const placeValueRule: RuleDefinition = {
+  id: 'placeValue',
+  usesTarget: true,
+  usesSecondaryTarget: true,
+  randomTarget: (random) => ({ targetNumber: randInt(1, 9, random), secondaryTargetNumber: randChoice([1, 10, 100], random) }),
+  fallbackTarget: () => ({ targetNumber: 7, secondaryTargetNumber: 10 }),
+  correctValues: ({ targetNumber, secondaryTargetNumber = 1 }) =>
+    numbersBetween(1, placeValueMax(secondaryTargetNumber))
+      .filter(n => n >= secondaryTargetNumber && digitAt(n, secondaryTargetNumber) === targetNumber),
+  // Usually the right digit in the wrong place (47 instead of 74)
+  randomValue: ({ targetNumber, secondaryTargetNumber = 1 }, random) => {
+    const max = placeValueMax(secondaryTargetNumber);
+    const value = randInt(10, max, random);
+    const otherPlaces = [1, 10, 100].filter(place => place !== secondaryTargetNumber && place * 10 <= max + 1);
+    return randInt(0, 3, random) > 0 ? withDigit(value, randChoice(otherPlaces, random), targetNumber) : value;
+  },
+  isCorrect: (value, { targetNumber, secondaryTargetNumber = 1 }) =>
+    isNumber(value) && value >= secondaryTargetNumber && digitAt(value, secondaryTargetNumber) === targetNumber,
+  phrase: ({ targetNumber, secondaryTargetNumber = 1 }) =>
+    `numbers with ${targetNumber} in the ${PLACE_NAMES[secondaryTargetNumber]} place`,
+  describe: ({ targetNumber, secondaryTargetNumber = 1 }) =>
+    `Eat all numbers with ${targetNumber} in the ${PLACE_NAMES[secondaryTargetNumber]} place`,
+  label: ({ targetNumber, secondaryTargetNumber = 1 }) =>
+    `${targetNumber} in the ${PLACE_NAMES[secondaryTargetNumber]} place`
+};
@@ -0,0 +1,121 @@
+import type { CellValue, Random, RuleDefinition } from '../types';
+import { binary, formatExpression } from '../expressionParser';
+import { randChoice, randInt } from '../mathUtils';
+import { isExpressionFor } from './expressionRule';
+
+// Exponent rules. Cells are written "2^3" and GameGrid shows the exponent as a superscript.
+
+const MAX_EXPONENT = 8;
+
+// === POWERS EQUAL TO A TARGET ===
+
+// Targets that can be written as a power in at least three ways (64 = 2^6 = 4^3 = 8^2 = 64^1)
+const GOOD_POWERS = [16, 64, 81, 256];
+
+// Every [base, exponent] with base ≥ 2 whose power is targetNumber
+function powerPairs(targetNumber: number): [number, number][] {
+  const pairs: [number, number][] = [];
+  for (let exponent = 1; exponent <= MAX_EXPONENT; exponent++) {
+    const base = Math.round(Math.pow(targetNumber, 1 / exponent));
+    if (base >= 2 && Math.pow(base, exponent) === targetNumber) {
+      pairs.push([base, exponent]);
+    }
+  }
+  return pairs;
+}
+
+function powerText(base: number, exponent: number): string {
+  return formatExpression(binary('^', base, exponent));
+}
+
+export function powerProblems(targetNumber: number): string[] {
+  return powerPairs(targetNumber).map(([base, exponent]) => powerText(base, exponent));
+}
+
+// Distractors built from the usual confusions: swapping base and exponent
+// (2^6 -> 6^2), multiplying instead (16 -> 8^2 because 8×2 = 16), or an
+// exponent that is one off
+export function randomPowerProblem(targetNumber: number, random: Random): string {
+  const base = randInt(2, 10, random);
+  const exponent = randInt(1, 4, random);
+  const pairs = powerPairs(targetNumber);
+  switch (randInt(0, 3, random)) {
+    case 0: {
+      const factors = [2, 3, 4].filter(factor => targetNumber % factor === 0);
+      if (factors.length > 0) {
+        const factor = randChoice(factors, random);
+        return powerText(targetNumber / factor, factor);
+      }
+      return powerText(exponent + 1, base);
+    }
+    case 1:
+      if (pairs.length > 0) {
+        const [correctBase, correctExponent] = randChoice(pairs, random);
+        return powerText(correctExponent, correctBase);
+      }
+      return powerText(exponent + 1, base);
+    case 2:
+      if (pairs.length > 0) {
+        const [correctBase, correctExponent] = randChoice(pairs, random);
+        return powerText(correctBase, Math.max(1, correctExponent + randChoice([-1, 1], random)));
+      }
+      return powerText(base, exponent);
+    default:
+      return powerText(base, exponent);
+  }
+}
+
+export const powersRule: RuleDefinition = {
+  id: 'powers',
+  usesTarget: true,
+  randomTarget: (random) => ({ targetNumber: randChoice(GOOD_POWERS, random) }),
+  fallbackTarget: () => ({ targetNumber: 64 }),
+  correctValues: ({ targetNumber }) => powerProblems(targetNumber),
+  randomValue: ({ targetNumber }, random) => randomPowerProblem(targetNumber, random),
+  isCorrect: (value, { targetNumber }) => isExpressionFor(value, targetNumber, ['^']),
+  phrase: ({ targetNumber }) => `powers equal to ${targetNumber}`,
+  describe: ({ targetNumber }) => `Find all powers that equal ${targetNumber}`,
+  label: ({ targetNumber }) => `Powers = ${targetNumber}`
+};
+
+// === POWERS OF A BASE ===
+// Plain numbers; targetNumber is the base, e.g. 2 for 2, 4, 8, 16, ...
+
+const MAX_POWER = 1000;
+
+export function powersOf(base: number): number[] {
+  const values: number[] = [];
+  if (base > 1) {
+    for (let power = base; power <= MAX_POWER; power *= base) {
+      values.push(power);
+    }
+  }
+  return values;
+}
+
+function isPowerOf(value: CellValue, base: number): boolean {
+  if (typeof value !== 'number' || base < 2 || value < base || !Number.isInteger(value)) return false;
+  let remaining = value;
+  while (remaining % base === 0) {
+    remaining /= base;
+  }
+  return remaining === 1;
+}
+
+export const powersOfRule: RuleDefinition = {
+  id: 'powersOf',
+  usesTarget: true,
+  randomTarget: (random) => ({ targetNumber: randChoice([2, 3, 5, 10], random) }),
+  fallbackTarget: () => ({ targetNumber: 2 }),
+  correctValues: ({ targetNumber }) => powersOf(targetNumber),
+  // Multiples that are not powers (2 -> 6, 12) and near misses around a power
+  randomValue: ({ targetNumber }, random) => {
+    const powers = powersOf(targetNumber);
+    if (powers.length === 0 || randInt(0, 1, random) === 0) return targetNumber * randInt(2, 20, random);
+    return Math.max(2, randChoice(powers, random) + randChoice([-2, -1, 1, 2], random));
+  },
+  isCorrect: (value, { targetNumber }) => isPowerOf(value, targetNumber),
+  phrase: ({ targetNumber }) => `powers of ${targetNumber}`,
+  describe: ({ targetNumber }) => `Eat all powers of ${targetNumber}`,
+  label: ({ targetNumber }) => `Powers of ${targetNumber}`
+};
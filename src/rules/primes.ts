@@ -0,0 +1,35 @@
+import type { Distractor, RuleDefinition, RuleTarget } from '../types';
+import { DEFAULT_NUMBER_RANGE, isPrime, randInt } from '../mathUtils';
+
+// Odd numbers in the range that are not prime but look it: 9, 21, 27, 49...
+function nearPrimes({ numberRange = DEFAULT_NUMBER_RANGE }: RuleTarget): Distractor[] {
+  const values: Distractor[] = [];
+  for (let i = 9; i <= numberRange.max; i += 2) {
+    if (i >= numberRange.min && !isPrime(i)) {
+      values.push({ value: i, misconception: 'nearPrime' });
+    }
+  }
+  return values;
+}
+
+export const primesRule: RuleDefinition = {
+  id: 'primes',
+  usesTarget: false,
+  randomTarget: () => ({ targetNumber: 0 }), // Primes don't use a target number
+  fallbackTarget: () => ({ targetNumber: 0 }),
+  correctValues: ({ numberRange = DEFAULT_NUMBER_RANGE }) => {
+    const values: number[] = [];
+    for (let i = Math.max(numberRange.min, 2); i <= numberRange.max; i++) {
+      if (isPrime(i)) {
+        values.push(i);
+      }
+    }
+    return values;
+  },
+  randomValue: ({ numberRange = DEFAULT_NUMBER_RANGE }, random) => randInt(numberRange.min, numberRange.max, random),
+  isCorrect: (value) => typeof value === 'number' && isPrime(value),
+  phrase: () => 'prime numbers',
+  describe: () => 'Eat all prime numbers',
+  label: () => 'Prime Numbers',
+  misconceptions: nearPrimes
+};
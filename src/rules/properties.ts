@@ -0,0 +1,118 @@
+import type { GameRule, Random, RuleDefinition } from '../types';
+import {
+  isFibonacci,
+  isPerfectCube,
+  isPerfectSquare,
+  isPrime,
+  isTriangular,
+  randChoice,
+  randInt
+} from '../mathUtils';
+
+// Number-property rules. Like primes they ignore targetNumber, so generateGrid
+// takes the same no-target path for all of them.
+
+interface PropertyRuleOptions {
+  id: GameRule;
+  name: string;                 // Plural noun used in the instruction, e.g. "even numbers"
+  label: string;
+  max: number;                  // Largest value that can appear on the board
+  test: (n: number) => boolean;
+  nearMiss: (members: number[], random: Random) => number; // Distractor that looks like it might belong
+}
+
+function membersUpTo(max: number, test: (n: number) => boolean): number[] {
+  const values: number[] = [];
+  for (let n = 1; n <= max; n++) {
+    if (test(n)) values.push(n);
+  }
+  return values;
+}
+
+// Neighbour of a random member, e.g. 15 or 17 next to the square 16
+function neighbourOf(members: number[], random: Random): number {
+  return Math.max(1, randChoice(members, random) + randChoice([-2, -1, 1, 2], random));
+}
+
+function createPropertyRule({ id, name, label, max, test, nearMiss }: PropertyRuleOptions): RuleDefinition {
+  const members = membersUpTo(max, test);
+  return {
+    id,
+    usesTarget: false,
+    randomTarget: () => ({ targetNumber: 0 }),
+    fallbackTarget: () => ({ targetNumber: 0 }),
+    correctValues: () => members,
+    randomValue: (_, random) => nearMiss(members, random),
+    isCorrect: (value) => typeof value === 'number' && test(value),
+    phrase: () => name,
+    describe: () => `Eat all ${name}`,
+    label: () => label
+  };
+}
+
+const PRIMES_TO_100 = membersUpTo(100, isPrime);
+
+export const evenRule = createPropertyRule({
+  id: 'even',
+  name: 'even numbers',
+  label: 'Even Numbers',
+  max: 50,
+  test: (n) => n % 2 === 0,
+  nearMiss: (_, random) => randInt(0, 24, random) * 2 + 1
+});
+
+export const oddRule = createPropertyRule({
+  id: 'odd',
+  name: 'odd numbers',
+  label: 'Odd Numbers',
+  max: 50,
+  test: (n) => Math.abs(n % 2) === 1,
+  nearMiss: (_, random) => randInt(1, 25, random) * 2
+});
+
+export const perfectSquaresRule = createPropertyRule({
+  id: 'perfectSquares',
+  name: 'perfect squares',
+  label: 'Perfect Squares',
+  max: 100,
+  test: isPerfectSquare,
+  nearMiss: neighbourOf
+});
+
+export const perfectCubesRule = createPropertyRule({
+  id: 'perfectCubes',
+  name: 'perfect cubes',
+  label: 'Perfect Cubes',
+  max: 125,
+  test: isPerfectCube,
+  // Squares are the classic mix-up (9 vs 27), plus neighbours of real cubes
+  nearMiss: (members, random) => randInt(0, 1, random) === 0 ? randInt(2, 10, random) ** 2 : neighbourOf(members, random)
+});
+
+export const triangularRule = createPropertyRule({
+  id: 'triangular',
+  name: 'triangular numbers',
+  label: 'Triangular Numbers',
+  max: 91,
+  test: isTriangular,
+  nearMiss: neighbourOf
+});
+
+export const fibonacciRule = createPropertyRule({
+  id: 'fibonacci',
+  name: 'Fibonacci numbers',
+  label: 'Fibonacci Numbers',
+  max: 89,
+  test: isFibonacci,
+  nearMiss: neighbourOf
+});
+
+export const compositeRule = createPropertyRule({
+  id: 'composite',
+  name: 'composite numbers',
+  label: 'Composite Numbers',
+  max: 50,
+  test: (n) => n > 1 && !isPrime(n),
+  // Primes and 1 (neither prime nor composite) are the distractors
+  nearMiss: (_, random) => randInt(0, 5, random) === 0 ? 1 : randChoice(PRIMES_TO_100, random)
+});
@@ -0,0 +1,56 @@
+import type { Random, RomanPairValue, RuleDefinition } from '../types';
+import { isRomanPair, romanPair } from '../cellValues';
+import { MAX_ROMAN, canWriteRoman, toRoman } from '../romanNumerals';
+import { randChoice, randInt } from '../mathUtils';
+
+// Roman and Arabic side by side: each cell pairs a Roman numeral with a number
+// ("XIV = 14") and the player eats the pairs that match. targetNumber is the
+// largest number on the board.
+
+// Subtractive pairs and the way round they are often misremembered
+const SWAPPED_PAIRS: [string, string][] = [['IV', 'VI'], ['IX', 'XI'], ['XL', 'LX'], ['XC', 'CX'], ['CD', 'DC'], ['CM', 'MC']];
+
+function nearby(value: number, random: Random): number {
+  const moved = value + randChoice([-10, -1, 1, 10], random);
+  return canWriteRoman(moved) ? moved : value + 1;
+}
+
+// Digits the wrong way round: 21 read as 12
+function reversedDigits(value: number): number {
+  return Number([...String(value)].reverse().join(''));
+}
+
+export function randomRomanDistractor(maxNumber: number, random: Random): RomanPairValue {
+  const value = randInt(1, maxNumber, random);
+  const roman = toRoman(value);
+  switch (randInt(0, 2, random)) {
+    case 0: {
+      // IV written as VI
+      const swap = SWAPPED_PAIRS.find(([standard]) => roman.includes(standard));
+      if (swap) return romanPair(roman.replace(swap[0], swap[1]), value);
+      return romanPair(toRoman(nearby(value, random)), value);
+    }
+    case 1:
+      return romanPair(toRoman(nearby(value, random)), value);
+    default: {
+      const reversed = reversedDigits(value);
+      return romanPair(roman, reversed !== value ? reversed : nearby(value, random));
+    }
+  }
+}
+
+export const romanRule: RuleDefinition = {
+  id: 'roman',
+  usesTarget: true,
+  randomTarget: (random) => ({ targetNumber: randChoice([20, 30, 50, 100], random) }),
+  fallbackTarget: () => ({ targetNumber: 20 }),
+  correctValues: ({ targetNumber }) => Array.from(
+    { length: Math.min(targetNumber, MAX_ROMAN) },
+    (_, i) => romanPair(toRoman(i + 1), i + 1)
+  ),
+  randomValue: ({ targetNumber }, random) => randomRomanDistractor(Math.min(targetNumber, MAX_ROMAN), random),
+  isCorrect: (value) => isRomanPair(value) && canWriteRoman(value.arabic) && toRoman(value.arabic) === value.roman,
+  phrase: ({ targetNumber }) => `matching Roman numerals up to ${targetNumber}`,
+  describe: ({ targetNumber }) => `Eat all Roman numerals matched with their value (up to ${targetNumber})`,
+  label: ({ targetNumber }) => `Roman = Arabic (to ${targetNumber})`
+};
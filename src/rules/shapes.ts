@@ -0,0 +1,88 @@
+import type { Random, RuleDefinition, RuleTarget, ShapeDefinition, ShapeValue } from '../types';
+import { isShape, shape } from '../cellValues';
+import { SHAPES, getShape } from '../shapes';
+import { randChoice, randInt } from '../mathUtils';
+
+// Geometry: cells show polygons and the player eats the ones with a property,
+// picked by target.shapeProperty (see ShapeProperty). Distractors lean on each
+// shape's lookalikes, so a rhombus sits next to the squares.
+
+const ROTATIONS = [0, 90, 180, 270];
+
+const TARGETS: RuleTarget[] = [
+  { targetNumber: 3, shapeProperty: 'sides' },
+  { targetNumber: 4, shapeProperty: 'sides' },
+  { targetNumber: 0, shapeProperty: 'rightAngle' },
+  { targetNumber: 1, shapeProperty: 'symmetry' },
+  { targetNumber: 0, shapeProperty: 'symmetry' }
+];
+
+function hasProperty(definition: ShapeDefinition, { targetNumber, shapeProperty = 'sides' }: RuleTarget): boolean {
+  switch (shapeProperty) {
+    case 'rightAngle':
+      return definition.hasRightAngle;
+    case 'symmetry':
+      return definition.linesOfSymmetry === targetNumber;
+    default:
+      return definition.sides === targetNumber;
+  }
+}
+
+function shapesWhere(predicate: (definition: ShapeDefinition) => boolean): ShapeDefinition[] {
+  return Object.values(SHAPES).filter(predicate);
+}
+
+function turned(definition: ShapeDefinition, random: Random): ShapeValue {
+  return shape(definition.id, randChoice(ROTATIONS, random));
+}
+
+// Mostly a lookalike of a correct shape, otherwise any shape without the property
+function randomShapeDistractor(target: RuleTarget, random: Random): ShapeValue {
+  const wrong = shapesWhere(definition => !hasProperty(definition, target));
+  const lookalikes = shapesWhere(definition => hasProperty(definition, target))
+    .flatMap(definition => definition.lookalikes)
+    .flatMap(id => wrong.filter(definition => definition.id === id));
+  const pool = lookalikes.length > 0 && randInt(0, 2, random) > 0 ? lookalikes : wrong;
+  return turned(randChoice(pool.length > 0 ? pool : Object.values(SHAPES), random), random);
+}
+
+function describeProperty({ targetNumber, shapeProperty = 'sides' }: RuleTarget): string {
+  switch (shapeProperty) {
+    case 'rightAngle':
+      return 'shapes with a right angle';
+    case 'symmetry':
+      if (targetNumber === 0) return 'shapes with no line of symmetry';
+      return targetNumber === 1
+        ? 'shapes with exactly one line of symmetry'
+        : `shapes with exactly ${targetNumber} lines of symmetry`;
+    default:
+      return targetNumber === 3 ? 'triangles' : `shapes with ${targetNumber} sides`;
+  }
+}
+
+export const shapesRule: RuleDefinition = {
+  id: 'shapes',
+  usesTarget: true,
+  randomTarget: (random) => ({ ...randChoice(TARGETS, random) }),
+  fallbackTarget: () => ({ targetNumber: 4, shapeProperty: 'sides' }),
+  correctValues: (target) => shapesWhere(definition => hasProperty(definition, target))
+    .flatMap(definition => ROTATIONS.map(rotation => shape(definition.id, rotation))),
+  randomValue: (target, random) => randomShapeDistractor(target, random),
+  isCorrect: (value, target) => {
+    if (!isShape(value)) return false;
+    const definition = getShape(value.shape);
+    return definition !== undefined && hasProperty(definition, target);
+  },
+  phrase: (target) => describeProperty(target),
+  describe: (target) => `Eat all ${describeProperty(target)}`,
+  label: ({ targetNumber, shapeProperty = 'sides' }) => {
+    switch (shapeProperty) {
+      case 'rightAngle':
+        return 'Right angle';
+      case 'symmetry':
+        return `Symmetry lines = ${targetNumber}`;
+      default:
+        return targetNumber === 3 ? 'Triangles' : `Sides = ${targetNumber}`;
+    }
+  }
+};
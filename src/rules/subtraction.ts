@@ -0,0 +1,41 @@
+import type { CellValue, Random, RuleDefinition } from '../types';
+import type { ExpressionNode } from '../expressionParser';
+import { binary, formatExpression } from '../expressionParser';
+import { randInt } from '../mathUtils';
+import { formatMatching, isExpressionFor, wrongOperationDistractors } from './expressionRule';
+
+// Every "a-b" problem with b <= 20 and a <= 30 that equals targetNumber
+export function subtractionProblems(targetNumber: number): string[] {
+  const candidates: ExpressionNode[] = [];
+  for (let b = 0; b <= 20; b++) {
+    const a = b + targetNumber;
+    if (a >= b && a <= 30) {
+      candidates.push(binary('-', a, b));
+    }
+  }
+  return formatMatching(candidates, targetNumber);
+}
+
+export function randomSubtractionProblem(random: Random): string {
+  const x = randInt(0, 30, random);
+  const y = randInt(0, Math.min(x, 15), random);
+  return formatExpression(binary('-', x, y));
+}
+
+export function isSubtractionProblemFor(value: CellValue, targetNumber: number): boolean {
+  return isExpressionFor(value, targetNumber, ['-']);
+}
+
+export const subtractionRule: RuleDefinition = {
+  id: 'subtraction',
+  usesTarget: true,
+  randomTarget: (random) => ({ targetNumber: randInt(0, 15, random) }),
+  fallbackTarget: (random) => ({ targetNumber: randInt(3, 10, random) }), // Good range for subtraction
+  correctValues: ({ targetNumber }) => subtractionProblems(targetNumber),
+  randomValue: (_, random) => randomSubtractionProblem(random),
+  isCorrect: (value, { targetNumber }) => isSubtractionProblemFor(value, targetNumber),
+  phrase: ({ targetNumber }) => `differences equal to ${targetNumber}`,
+  describe: ({ targetNumber }) => `Find all differences that equal ${targetNumber}`,
+  label: ({ targetNumber }) => `Subtraction = ${targetNumber}`,
+  misconceptions: ({ targetNumber }) => wrongOperationDistractors(subtractionProblems(targetNumber), targetNumber, '+')
+};
@@ -0,0 +1,93 @@
+import type { ClockValue, Random, RuleDefinition, RuleTarget } from '../types';
+import { clock, formatTime, isClock } from '../cellValues';
+import { randChoice, randInt } from '../mathUtils';
+
+// Telling time on analog clocks. Times are stored as minutes after 12:00 on a
+// 12-hour dial (3:15 is 195). With only targetNumber the player eats that exact
+// time; with secondaryTargetNumber too, any time from targetNumber up to (but not
+// including) secondaryTargetNumber.
+
+const MINUTES_ON_DIAL = 12 * 60;
+const STEP = 5; // Clocks show five-minute times
+
+const ANALOG_FACES: ClockValue['face'][] = ['numbers', 'ticks'];
+const ALL_FACES: ClockValue['face'][] = [...ANALOG_FACES, 'digital'];
+
+export function dialMinutes(hours: number, minutes: number): number {
+  return (hours % 12) * 60 + minutes;
+}
+
+function clockAt(time: number, face: ClockValue['face']): ClockValue {
+  const wrapped = ((time % MINUTES_ON_DIAL) + MINUTES_ON_DIAL) % MINUTES_ON_DIAL;
+  const hours = Math.floor(wrapped / 60);
+  return clock(hours === 0 ? 12 : hours, wrapped % 60, face);
+}
+
+export function formatDialTime(time: number): string {
+  const { hours, minutes } = clockAt(time, 'digital');
+  return formatTime(hours, minutes);
+}
+
+function isRange(target: RuleTarget): target is RuleTarget & { secondaryTargetNumber: number } {
+  return target.secondaryTargetNumber !== undefined;
+}
+
+function isTimeFor(time: number, target: RuleTarget): boolean {
+  if (!isRange(target)) return time === target.targetNumber;
+  return time >= target.targetNumber && time < target.secondaryTargetNumber;
+}
+
+// The usual misreadings: hands swapped, the hour hand read as the next or
+// previous hour, or the minute hand a few marks off
+function misreadTime(time: number, random: Random): number {
+  const hours = Math.floor(time / 60);
+  const minutes = time % 60;
+  switch (randInt(0, 2, random)) {
+    case 0:
+      return dialMinutes(minutes / STEP, hours * STEP);
+    case 1:
+      return time + randChoice([-60, 60], random);
+    default:
+      return time + randChoice([-3, -2, -1, 1, 2, 3], random) * STEP;
+  }
+}
+
+export const timeRule: RuleDefinition = {
+  id: 'time',
+  usesTarget: true,
+  randomTarget: (random) => ({ targetNumber: randInt(0, MINUTES_ON_DIAL / STEP - 1, random) * STEP }),
+  fallbackTarget: () => ({ targetNumber: 180, secondaryTargetNumber: 240 }),
+  // An exact time appears on each kind of face so the board has several to find
+  correctValues: (target, random) => {
+    if (!isRange(target)) return ALL_FACES.map(face => clockAt(target.targetNumber, face));
+    const values: ClockValue[] = [];
+    for (let time = target.targetNumber; time < target.secondaryTargetNumber; time += STEP) {
+      values.push(clockAt(time, randChoice(ANALOG_FACES, random)));
+    }
+    return values;
+  },
+  randomValue: (target, random) => {
+    if (!isRange(target)) return clockAt(misreadTime(target.targetNumber, random), randChoice(ALL_FACES, random));
+    // Just outside the range, or an inside time misread
+    const time = randInt(0, 2, random) === 0
+      ? misreadTime(randInt(target.targetNumber / STEP, target.secondaryTargetNumber / STEP - 1, random) * STEP, random)
+      : randChoice([
+        target.targetNumber - randInt(1, 6, random) * STEP,
+        target.secondaryTargetNumber + randInt(0, 6, random) * STEP
+      ], random);
+    return clockAt(time, randChoice(ANALOG_FACES, random));
+  },
+  isCorrect: (value, target) => isClock(value) && isTimeFor(dialMinutes(value.hours, value.minutes), target),
+  phrase: (target) => isRange(target)
+    ? `times between ${formatDialTime(target.targetNumber)} and ${formatDialTime(target.secondaryTargetNumber)}`
+    : `clocks showing ${formatDialTime(target.targetNumber)}`,
+  describe: (target) => {
+    if (!isRange(target)) return `Eat all clocks showing ${formatDialTime(target.targetNumber)}`;
+    const start = formatDialTime(target.targetNumber);
+    const end = formatDialTime(target.secondaryTargetNumber);
+    return `Eat all times between ${start} and ${end} (${start} counts, ${end} does not)`;
+  },
+  label: (target) => isRange(target)
+    ? `Times ${formatDialTime(target.targetNumber)}–${formatDialTime(target.secondaryTargetNumber)}`
+    : `Time = ${formatDialTime(target.targetNumber)}`
+};
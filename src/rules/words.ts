@@ -0,0 +1,42 @@
+import type { Random, RuleDefinition, WordsValue } from '../types';
+import { isWords, words } from '../cellValues';
+import { PHRASE_TEMPLATES, getPhraseBook, getPhraseTemplate, phraseValue } from '../phrases';
+import { randChoice, randInt } from '../mathUtils';
+
+// Word values: cells say "half of 12" or "ten less than 40" and the player eats
+// the ones equal to targetNumber. target.locale picks the phrase book.
+
+// Every phrase that names value with a whole-number operand
+function phrasesFor(value: number, locale: string): WordsValue[] {
+  return PHRASE_TEMPLATES.flatMap(template => {
+    const operand = template.operandFor(value);
+    return operand === null ? [] : [words(template.id, operand, locale)];
+  });
+}
+
+// A correct phrase read the wrong way round ("double 24" for "half of 24"),
+// or the right kind of phrase for a neighbouring number
+export function randomWordsDistractor(targetNumber: number, locale: string, random: Random): WordsValue {
+  const correct = phrasesFor(targetNumber, locale);
+  if (correct.length > 0 && randInt(0, 1, random) === 0) {
+    const { phrase, operand } = randChoice(correct, random);
+    const flipped = words(getPhraseTemplate(phrase)?.opposite ?? phrase, operand, locale);
+    // "ten less than 4" is not something early readers have met
+    if ((phraseValue(flipped) ?? -1) >= 0) return flipped;
+  }
+  const nearby = phrasesFor(targetNumber + randChoice([-2, -1, 1, 2], random), locale);
+  return nearby.length > 0 ? randChoice(nearby, random) : words('oneMore', targetNumber, locale);
+}
+
+export const wordsRule: RuleDefinition = {
+  id: 'words',
+  usesTarget: true,
+  randomTarget: (random) => ({ targetNumber: randInt(6, 30, random) }),
+  fallbackTarget: () => ({ targetNumber: 12 }),
+  correctValues: ({ targetNumber, locale }) => phrasesFor(targetNumber, getPhraseBook(locale).id),
+  randomValue: ({ targetNumber, locale }, random) => randomWordsDistractor(targetNumber, getPhraseBook(locale).id, random),
+  isCorrect: (value, { targetNumber }) => isWords(value) && phraseValue(value) === targetNumber,
+  phrase: ({ targetNumber }) => `phrases equal to ${targetNumber}`,
+  describe: ({ targetNumber }) => `Eat all phrases equal to ${targetNumber}`,
+  label: ({ targetNumber }) => `Phrases = ${targetNumber}`
+};
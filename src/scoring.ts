@@ -86,6 +86,11 @@ export function checkObjectiveCompletion(
       // No mistakes objective
       return gameState.incorrectGuesses === 0;
 
+    case 'par':
+      // Board cleared within par (plus any moves the objective allows)
+      return !gameState.grid.flat().some(cell => cell.isTarget) &&
+        gameState.movesMade <= gameState.parMoves + (objective.target || 0);
+
     default:
       return false;
   }
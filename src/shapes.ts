@@ -0,0 +1,113 @@
+import type { ShapeDefinition } from './types';
+
+// === SHAPE CATALOGUE ===
+// Every shape the shapes rule can draw, with the properties it is judged on.
+// Corners stay within 48 of the centre so any rotation still fits the cell.
+
+// Corners of a regular polygon with one corner straight up
+function regularPolygon(sides: number, radius = 42): [number, number][] {
+  return Array.from({ length: sides }, (_, i) => {
+    const angle = (i / sides) * 2 * Math.PI - Math.PI / 2;
+    return [
+      Math.round((50 + radius * Math.cos(angle)) * 10) / 10,
+      Math.round((50 + radius * Math.sin(angle)) * 10) / 10
+    ];
+  });
+}
+
+const SHAPE_LIST: ShapeDefinition[] = [
+  {
+    id: 'equilateralTriangle', name: 'equilateral triangle', points: regularPolygon(3),
+    sides: 3, hasRightAngle: false, linesOfSymmetry: 3,
+    lookalikes: ['isoscelesTriangle', 'scaleneTriangle']
+  },
+  {
+    id: 'isoscelesTriangle', name: 'isosceles triangle', points: [[50, 10], [74, 84], [26, 84]],
+    sides: 3, hasRightAngle: false, linesOfSymmetry: 1,
+    lookalikes: ['equilateralTriangle', 'rightIsoscelesTriangle', 'kite']
+  },
+  {
+    id: 'rightTriangle', name: 'right triangle', points: [[26, 14], [26, 80], [74, 80]],
+    sides: 3, hasRightAngle: true, linesOfSymmetry: 0,
+    lookalikes: ['scaleneTriangle', 'rightIsoscelesTriangle', 'rightTrapezoid']
+  },
+  {
+    id: 'rightIsoscelesTriangle', name: 'right isosceles triangle', points: [[24, 22], [24, 78], [80, 78]],
+    sides: 3, hasRightAngle: true, linesOfSymmetry: 1,
+    lookalikes: ['rightTriangle', 'isoscelesTriangle', 'square']
+  },
+  {
+    id: 'scaleneTriangle', name: 'scalene triangle', points: [[18, 76], [82, 78], [40, 18]],
+    sides: 3, hasRightAngle: false, linesOfSymmetry: 0,
+    lookalikes: ['rightTriangle', 'isoscelesTriangle', 'parallelogram']
+  },
+  {
+    id: 'square', name: 'square', points: [[20, 20], [80, 20], [80, 80], [20, 80]],
+    sides: 4, hasRightAngle: true, linesOfSymmetry: 4,
+    lookalikes: ['rhombus', 'rectangle', 'kite']
+  },
+  {
+    id: 'rectangle', name: 'rectangle', points: [[14, 30], [86, 30], [86, 70], [14, 70]],
+    sides: 4, hasRightAngle: true, linesOfSymmetry: 2,
+    lookalikes: ['parallelogram', 'square', 'rightTrapezoid']
+  },
+  {
+    id: 'rhombus', name: 'rhombus', points: [[50, 10], [78, 50], [50, 90], [22, 50]],
+    sides: 4, hasRightAngle: false, linesOfSymmetry: 2,
+    lookalikes: ['square', 'kite', 'parallelogram']
+  },
+  {
+    id: 'parallelogram', name: 'parallelogram', points: [[10, 70], [30, 30], [90, 30], [70, 70]],
+    sides: 4, hasRightAngle: false, linesOfSymmetry: 0,
+    lookalikes: ['rectangle', 'rhombus', 'isoscelesTrapezoid']
+  },
+  {
+    id: 'kite', name: 'kite', points: [[50, 10], [76, 38], [50, 90], [24, 38]],
+    sides: 4, hasRightAngle: false, linesOfSymmetry: 1,
+    lookalikes: ['rhombus', 'isoscelesTriangle', 'square']
+  },
+  {
+    id: 'isoscelesTrapezoid', name: 'isosceles trapezoid', points: [[30, 28], [70, 28], [88, 72], [12, 72]],
+    sides: 4, hasRightAngle: false, linesOfSymmetry: 1,
+    lookalikes: ['rightTrapezoid', 'parallelogram', 'house']
+  },
+  {
+    id: 'rightTrapezoid', name: 'right trapezoid', points: [[16, 24], [58, 24], [84, 76], [16, 76]],
+    sides: 4, hasRightAngle: true, linesOfSymmetry: 0,
+    lookalikes: ['isoscelesTrapezoid', 'rectangle', 'rightTriangle']
+  },
+  {
+    id: 'regularPentagon', name: 'regular pentagon', points: regularPolygon(5),
+    sides: 5, hasRightAngle: false, linesOfSymmetry: 5,
+    lookalikes: ['house', 'regularHexagon']
+  },
+  {
+    id: 'house', name: 'house pentagon', points: [[50, 10], [82, 40], [82, 84], [18, 84], [18, 40]],
+    sides: 5, hasRightAngle: true, linesOfSymmetry: 1,
+    lookalikes: ['regularPentagon', 'square', 'isoscelesTrapezoid']
+  },
+  {
+    id: 'regularHexagon', name: 'regular hexagon', points: regularPolygon(6),
+    sides: 6, hasRightAngle: false, linesOfSymmetry: 6,
+    lookalikes: ['regularPentagon', 'regularOctagon', 'lShape']
+  },
+  {
+    // Equal arms, so it is mirror-symmetric across the diagonal through its corner
+    id: 'lShape', name: 'L-shaped hexagon', points: [[18, 18], [46, 18], [46, 54], [82, 54], [82, 82], [18, 82]],
+    sides: 6, hasRightAngle: true, linesOfSymmetry: 1,
+    lookalikes: ['rectangle', 'square', 'regularHexagon']
+  },
+  {
+    id: 'regularOctagon', name: 'regular octagon', points: regularPolygon(8),
+    sides: 8, hasRightAngle: false, linesOfSymmetry: 8,
+    lookalikes: ['regularHexagon', 'regularPentagon']
+  }
+];
+
+export const SHAPES: Record<string, ShapeDefinition> = Object.fromEntries(
+  SHAPE_LIST.map(shape => [shape.id, shape])
+);
+
+export function getShape(id: string): ShapeDefinition | undefined {
+  return SHAPES[id];
+}
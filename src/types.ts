@@ -1,13 +1,91 @@
 // Types for the Number Munchers game
 
+export type FractionValue = {
+  kind: 'fraction';
+  numerator: number;
+  denominator: number;
+};
+
+export type PercentValue = {
+  kind: 'percent';
+  percent: number;  // 25 for "25%"
+};
+
+// A handful of coins and bills, e.g. 2 quarters + 1 dime. Denomination ids refer
+// to the currency's definition (see src/currencies.ts).
+export type CoinsValue = {
+  kind: 'coins';
+  currency: string;
+  coins: { denomination: string; count: number }[];
+};
+
+// An analog clock face (or its digital twin) showing hours:minutes on a 12-hour dial
+export type ClockValue = {
+  kind: 'clock';
+  hours: number;    // 1-12
+  minutes: number;  // 0-59
+  face: 'numbers' | 'ticks' | 'digital';
+};
+
+// A polygon from the shape catalogue (see src/shapes.ts), turned clockwise by
+// `rotation` degrees so the same shape does not always sit the same way up
+export type ShapeValue = {
+  kind: 'shape';
+  shape: string;
+  rotation: number;
+};
+
+// A short phrase standing for a number, e.g. "half of 12". `phrase` is a template
+// id and the wording comes from the locale's phrase book (see src/phrases.ts).
+export type WordsValue = {
+  kind: 'words';
+  phrase: string;
+  operand: number;
+  locale: string;
+};
+
+// A whole number written in binary, octal or hex, e.g. "0b1010" or "0xA".
+// `digits` pads with leading zeros; `prefix` false drops the 0b / 0o / 0x.
+export type NumberBase = 2 | 8 | 16;
+
+export type BaseNumberValue = {
+  kind: 'baseNumber';
+  value: number;
+  base: NumberBase;
+  digits: number;
+  prefix: boolean;
+};
+
+// A Roman numeral written next to an Arabic number, e.g. "XIV = 14". The pair
+// may be wrong on purpose; the roman rule asks which ones match.
+export type RomanPairValue = {
+  kind: 'romanPair';
+  roman: string;
+  arabic: number;
+};
+
+export type CellValue =
+  | number
+  | string
+  | FractionValue
+  | PercentValue
+  | CoinsValue
+  | ClockValue
+  | ShapeValue
+  | WordsValue
+  | BaseNumberValue
+  | RomanPairValue;
+
 export type Cell = {
-  value: number | string;
+  value: CellValue;
   isTarget: boolean;
   hasMuncher: boolean;
   hasTroggle: boolean;
   troggleType?: EnemyType; // Track the type of Troggle in this cell
   revealed?: boolean; // Optional property for delayed reveal feature
   munchedCorrect?: boolean; // Track if this was munched as a correct answer
+  misconception?: Misconception; // The mistake this distractor was built from, if any
+  wall?: boolean; // Nobody can enter; only hand-made level layouts have walls
 };
 
 export type Position = {
@@ -15,21 +93,206 @@ export type Position = {
   col: number;
 };
 
-export type GameRule = 'multiples' | 'factors' | 'primes' | 'addition' | 'subtraction' | 'mixed';
+export type GameRule =
+  | 'multiples'
+  | 'factors'
+  | 'primes'
+  | 'addition'
+  | 'subtraction'
+  | 'mixed'
+  | 'multiplication'
+  | 'division'
+  | 'mixedAll'
+  | 'expressions'
+  | 'fractions'
+  | 'greaterThan'
+  | 'lessThan'
+  | 'between'
+  | 'even'
+  | 'odd'
+  | 'perfectSquares'
+  | 'perfectCubes'
+  | 'triangular'
+  | 'fibonacci'
+  | 'composite'
+  | 'commonFactors'
+  | 'commonMultiples'
+  | 'rounding'
+  | 'placeValue'
+  | 'equations'
+  | 'integers'
+  | 'negatives'
+  | 'absoluteValue'
+  | 'powers'
+  | 'powersOf'
+  | 'percentages'
+  | 'money'
+  | 'time'
+  | 'shapes'
+  | 'words'
+  | 'bases'
+  | 'roman';
 
 export interface GameState {
   grid: Cell[][];
   muncher: Position;
   troggles: Position[];
-  rule: GameRule;
+  rule: RuleSpec;
   targetNumber: number;
+  secondaryTargetNumber?: number;
+  currency?: string;
+  shapeProperty?: ShapeProperty;
+  locale?: string;
+  hidePrefixes?: boolean;
+  seed: number;         // The game's random seed: same seed, same board and Troggle moves
+  randomState: number;  // Where the seeded generator is now; advances as Troggles move
   score: number;
   gameOver: boolean;
 }
 
+// === RANDOM NUMBERS ===
+
+// A seeded random number generator (see createRandom in mathUtils)
+export interface Random {
+  next(): number;          // Uniform in [0, 1), like Math.random()
+  readonly state: number;  // Pass to createRandom to carry on from this point
+}
+
+// === RULE SYSTEM TYPES ===
+
+// The values a rule is parameterised by. GameState and LevelParameters carry the same fields.
+export interface RuleTarget {
+  targetNumber: number;
+  secondaryTargetNumber?: number;  // Second parameter, e.g. the upper bound for 'between'
+  currency?: string;               // Currency id for the money rule (defaults to US dollars)
+  shapeProperty?: ShapeProperty;   // What the shapes rule checks (defaults to 'sides')
+  locale?: string;                 // Phrase book for the words rule (defaults to English)
+  hidePrefixes?: boolean;          // Bases rule: write "1010" instead of "0b1010"
+  numberRange?: { min: number; max: number; }; // Level's range; rules pick their numbers from it (default 2–50)
+}
+
+// === CURRENCY TYPES ===
+
+export interface Denomination {
+  id: string;
+  name: string;          // Singular, e.g. "quarter"
+  plural: string;        // e.g. "pennies"
+  value: number;         // In the currency's smallest unit (cents, pence)
+  type: 'coin' | 'bill';
+  symbol: string;        // Short text drawn on the icon, e.g. "25¢" or "£2"
+  color: string;         // Icon fill color
+}
+
+export interface Currency {
+  id: string;
+  name: string;
+  majorSymbol: string;   // "$" for amounts of 100 or more
+  minorSymbol: string;   // "¢" for amounts under 100
+  denominations: Denomination[];
+}
+
+// === SHAPE TYPES ===
+
+// What the shapes rule asks about; targetNumber is the count where one is needed
+//   sides:      exactly targetNumber sides (3 reads as "triangles")
+//   rightAngle: at least one right angle
+//   symmetry:   exactly targetNumber lines of symmetry
+export type ShapeProperty = 'sides' | 'rightAngle' | 'symmetry';
+
+export interface ShapeDefinition {
+  id: string;
+  name: string;                  // e.g. "right triangle"
+  points: [number, number][];    // Corners in a 100x100 box, centred on (50, 50)
+  sides: number;
+  hasRightAngle: boolean;
+  linesOfSymmetry: number;
+  lookalikes: string[];          // Shapes easily mistaken for this one, used as distractors
+}
+
+// === PHRASE TYPES ===
+
+// The arithmetic behind a phrase, independent of language
+export interface PhraseTemplate {
+  id: string;
+  apply: (operand: number) => number;
+  // The whole-number operand that makes the phrase equal value, or null if none does
+  operandFor: (value: number) => number | null;
+  opposite: string;  // The template it is most often confused with, e.g. half / double
+}
+
+// One language's wording for each phrase template, e.g. half: n => `half of ${n}`
+export interface PhraseBook {
+  id: string;
+  name: string;
+  phrases: Record<string, (operand: number) => string>;
+}
+
+// Compound rules: a tree of AND / OR / NOT over single rules. Each leaf carries
+// its own target, e.g. "factors of 24 but NOT factors of 12":
+//   { and: [{ rule: 'factors', targetNumber: 24 }, { not: { rule: 'factors', targetNumber: 12 } }] }
+export type RuleLeaf = { rule: GameRule } & Partial<RuleTarget>;
+
+export type RuleExpression =
+  | RuleLeaf
+  | { and: RuleExpression[] }
+  | { or: RuleExpression[] }
+  | { not: RuleExpression };
+
+// What a level or game plays: a single rule (target comes from the state) or a compound tree
+export type RuleSpec = GameRule | RuleExpression;
+
+// A single math rule: everything the board generator, the eat logic and the UI
+// need to know about it lives in one definition (see src/rules/)
+export interface RuleDefinition {
+  id: GameRule | 'compound';
+  usesTarget: boolean;                                  // False for rules like primes that ignore the target
+  usesSecondaryTarget?: boolean;                        // True for two-parameter rules like 'between'
+  // The generating methods draw every random pick from the generator passed in
+  randomTarget: (random: Random) => RuleTarget;         // Target for a fresh classic-mode puzzle
+  fallbackTarget: (random: Random) => RuleTarget;       // Known-good target when the requested one yields too few answers
+  correctValues: (target: RuleTarget, random: Random) => CellValue[]; // Every value that satisfies the rule
+  randomValue: (target: RuleTarget, random: Random) => CellValue;     // Random candidate; the generator keeps only incorrect ones
+  isCorrect: (value: CellValue, target: RuleTarget) => boolean;
+  phrase: (target: RuleTarget) => string;               // Plural noun phrase, e.g. "multiples of 3", used to word compound rules
+  describe: (target: RuleTarget) => string;             // Instruction shown in GameInfo
+  label: (target: RuleTarget) => string;                // Short label shown on LevelSelector cards
+  misconceptions?: (target: RuleTarget, random: Random) => Distractor[]; // Wrong values built from common mistakes; may include correct ones, which are dropped
+}
+
+// === MISCONCEPTION TYPES ===
+
+// The mistake a distractor is built to catch, so a wrong munch says why it was wrong
+export type Misconception =
+  | 'offByOne'           // One away from a correct value: 22 among multiples of 7
+  | 'factorMultipleMix'  // A factor where multiples were asked for, or the other way round
+  | 'nearbyFactor'       // A factor of a neighbouring number: 7 among factors of 12
+  | 'nearPrime'          // An odd number that looks prime: 21 or 27
+  | 'wrongOperation';    // The sum where the player should have subtracted: "7+3" for 4
+
+// A wrong value and, when it comes from a known mistake, which one
+export interface Distractor {
+  value: CellValue;
+  misconception?: Misconception;
+}
+
 // Extend GameState to always include incorrectGuesses
 export type GameStateWithGuesses = GameState & { incorrectGuesses: number };
 
+// === GRID GENERATION TYPES ===
+
+// Everything generateGrid needs to build a board. Levels fill the optional
+// fields from their parameters; classic mode leaves them to the defaults.
+export interface GridOptions {
+  rows: number;
+  cols: number;
+  rule: RuleSpec;
+  target: RuleTarget;
+  random?: Random;                            // Defaults to a freshly seeded generator
+  numberRange?: { min: number; max: number; }; // Plain-number cells stay inside this (default 2–50)
+  targetCount?: { min: number; max: number; }; // How many correct cells (default 3–8)
+  allowDuplicates?: boolean;                  // Defaults to true; false repeats a value only when the rule runs out
+}
+
 // === LEVEL SYSTEM TYPES ===
 
 export type LevelCategory = 'tutorial' | 'basic' | 'intermediate' | 'advanced' | 'master';
@@ -44,7 +307,8 @@ export type DifficultyModifier =
   | 'fasterEnemies' 
   | 'slowerEnemies'
   | 'moreEnemies'
-  | 'smarterEnemies';
+  | 'smarterEnemies'
+  | 'hideBasePrefixes';
 
 export interface LevelRequirements {
   minScore: number;           // Minimum score to unlock
@@ -54,24 +318,35 @@ export interface LevelRequirements {
   starsRequired?: number;     // Optional: minimum stars from previous levels
 }
 
+// How plain whole numbers are drawn in cells. The pictures are for early
+// learners and only cover small counts; bigger numbers still show as digits.
+// 'roman' also writes the target in the rule text as Roman numerals.
+export type NumberDisplay = 'digits' | 'dots' | 'tenFrame' | 'tally' | 'roman';
+
 export interface LevelParameters {
   gridSize: { rows: number; cols: number; };
   timeLimit: number;
-  rule: GameRule;
+  rule: RuleSpec;
   targetNumber?: number;
+  secondaryTargetNumber?: number;  // Second rule parameter, e.g. the upper bound for 'between'
+  currency?: string;               // Currency id for the money rule
+  shapeProperty?: ShapeProperty;   // Property checked by the shapes rule
+  locale?: string;                 // Phrase book id for the words rule
+  numberDisplay?: NumberDisplay;   // Defaults to 'digits'
   enemyCount: number;
   enemyTypes: EnemyType[];
   difficultyModifiers: DifficultyModifier[];
   numberRange?: { min: number; max: number; };
   targetCount?: { min: number; max: number; };
+  allowDuplicates?: boolean;       // Defaults to true
 }
 
 export interface LevelObjective {
   id: string;
   description: string;
   type: 'primary' | 'bonus';
-  condition: 'complete' | 'score' | 'time' | 'accuracy' | 'noMistakes';
-  target?: number;           // Target value for score/time/accuracy objectives
+  condition: 'complete' | 'score' | 'time' | 'accuracy' | 'noMistakes' | 'par';
+  target?: number;           // Target value for score/time/accuracy objectives; moves allowed over par for 'par'
   points: number;            // Points awarded for completing this objective
   required: boolean;         // Whether this objective is required to pass the level
 }
@@ -82,6 +357,14 @@ export interface LevelReward {
   description: string;
 }
 
+// A staged board for a level. Cells are listed row by row and must match
+// gridSize; null marks a wall. Targets are whichever values the rule accepts.
+export interface BoardLayout {
+  cells: (CellValue | null)[][];
+  muncher: Position;
+  troggles: Position[];      // One per enemy, in enemyTypes order
+}
+
 export interface Level {
   id: number;
   name: string;
@@ -91,6 +374,7 @@ export interface Level {
   parameters: LevelParameters;
   objectives: LevelObjective[];
   rewards: LevelReward[];
+  layout?: BoardLayout;      // Hand-made board used instead of a generated one
   isUnlocked?: boolean;      // Runtime property for UI
   bestScore?: number;        // Runtime property for save data
   starsEarned?: number;      // Runtime property for save data (0-3)
@@ -107,6 +391,7 @@ export interface LevelProgress {
   firstCompletedAt?: Date;
   lastPlayedAt: Date;
   objectivesCompleted: string[]; // IDs of completed objectives
+  misconceptions?: Partial<Record<Misconception, number>>; // Wrong munches by the mistake behind them, over every attempt
 }
 
 export interface PlayerStats {
@@ -129,6 +414,7 @@ export interface GameSession {
   starsEarned: number;
   objectivesCompleted: string[];
   mistakes: number;
+  misconceptions: Partial<Record<Misconception, number>>;  // Wrong munches counted by the mistake behind them
   timeRemaining: number;
 }
 
@@ -142,6 +428,8 @@ export interface LevelGameState extends GameStateWithGuesses {
   puzzlesSolved: number;
   accuracy: number;
   currentStreak: number;
+  parMoves: number;   // Moves the board analyzer's tour needs to reach every target
+  movesMade: number;  // Muncher moves so far, compared with parMoves
   gameWon?: boolean;  // Add gameWon property for level completion
 }
 